@@ -0,0 +1,109 @@
+jest.mock('../google-auth', () => ({}));
+
+import { sendAlertEmail } from '../email';
+import { toSentAlerts } from '../sent-alert-store';
+import { AlertDue, AlertSection, ReportChange } from '../types';
+
+const today = new Date(Date.UTC(2026, 9, 19));
+const reportDate = new Date(Date.UTC(2026, 9, 21));
+
+function alert(ticker: string, accounts?: string[]): AlertDue {
+  return {
+    report: { ticker, company: ticker, reportDate, timeOfDay: 'premarket' },
+    alertDate: today,
+    reportDateFormatted: 'Wed, Oct 21',
+    daysUntilReport: 2,
+    ...(accounts ? { accounts } : {}),
+  };
+}
+
+function change(ticker: string, accounts: string[]): ReportChange {
+  const { report } = alert(ticker);
+  return {
+    report,
+    previous: { reportDate: '2026-10-28', timeOfDay: 'premarket', seenAt: '2026-10-18T12:00:00.000Z' },
+    audience: 'holdings',
+    accounts,
+    dateChanged: true,
+    timeChanged: false,
+  };
+}
+
+const section = (alerts: AlertDue[]): AlertSection => ({
+  definition: {
+    id: 'holdingsImminent',
+    title: 'Holdings Reporting Soon',
+    audience: 'holdings',
+    window: { from: { day: 0, session: 'premarket' }, to: { day: 2, session: 'postmarket' } },
+    color: '#c0392b',
+    urgent: true,
+    subject: '{n} holding{s} imminent',
+  },
+  alerts,
+});
+
+let logs: string[];
+
+beforeEach(() => {
+  logs = [];
+  jest.spyOn(console, 'log').mockImplementation((...args) => {
+    logs.push(args.join(' '));
+  });
+  process.env.RECIPIENTS_B64 = Buffer.from(
+    JSON.stringify({
+      recipients: [
+        'all@example.com',
+        { email: 'fund-a@example.com', accounts: ['A'] },
+        { email: 'fund-b@example.com', accounts: ['B'] },
+      ],
+    })
+  ).toString('base64');
+});
+
+afterEach(() => {
+  delete process.env.RECIPIENTS_B64;
+  jest.restoreAllMocks();
+});
+
+describe('sendAlertEmail account scoping', () => {
+  it("doesn't email a fund about another fund's date changes", async () => {
+    const email = await sendAlertEmail([section([])], true, { changes: [change('AAPL', ['A'])] });
+
+    expect(email.sent).toBe(true);
+    expect(email.recipients).toEqual(['all@example.com', 'fund-a@example.com']);
+    expect(email.groups).toEqual([
+      { recipients: ['all@example.com'] },
+      { recipients: ['fund-a@example.com'], accounts: ['A'] },
+    ]);
+    expect(logs).toContain('[INFO] Nothing for accounts B; not emailing fund-b@example.com');
+  });
+});
+
+describe('toSentAlerts', () => {
+  it('records only the recipients whose email included the alert', () => {
+    const records = toSentAlerts(section([alert('AAPL', ['A']), alert('MSFT', ['B']), alert('IBM')]), today, {
+      sent: true,
+      recipients: ['all@example.com', 'fund-a@example.com'],
+      groups: [
+        { recipients: ['all@example.com'], messageId: 'm1' },
+        { recipients: ['fund-a@example.com'], accounts: ['A'], messageId: 'm2' },
+      ],
+    });
+
+    expect(records.map((r) => [r.ticker, r.recipients, r.messageId])).toEqual([
+      ['AAPL', ['all@example.com', 'fund-a@example.com'], 'm1,m2'],
+      ['MSFT', ['all@example.com'], 'm1'],
+      ['IBM', ['all@example.com', 'fund-a@example.com'], 'm1,m2'],
+    ]);
+  });
+
+  it('leaves out alerts no group received', () => {
+    const records = toSentAlerts(section([alert('AAPL', ['A']), alert('MSFT', ['B'])]), today, {
+      sent: true,
+      recipients: ['fund-a@example.com'],
+      groups: [{ recipients: ['fund-a@example.com'], accounts: ['A'] }],
+    });
+
+    expect(records.map((r) => r.ticker)).toEqual(['AAPL']);
+  });
+});
@@ -0,0 +1,101 @@
+import { mkdtempSync, readFileSync, writeFileSync, rmSync, readdirSync, utimesSync } from 'fs';
+import { spawnSync } from 'child_process';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { parseLedger, loadLedger, appendToLedger, pruneLedger, LEDGER_VERSION } from '../alert-ledger';
+import { SentAlert } from '../types';
+
+const v0Record = { ticker: 'AAPL', reportDate: '2026-10-21', sentAt: '2026-10-19T13:00:00.000Z', alertDaysBefore: 2 };
+
+let dir: string;
+let filePath: string;
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), 'alert-ledger-'));
+  filePath = join(dir, 'sent-alerts.json');
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  rmSync(dir, { recursive: true, force: true });
+  jest.restoreAllMocks();
+});
+
+describe('parseLedger', () => {
+  it('reads a bare array as version 0', () => {
+    expect(parseLedger([v0Record], filePath)).toEqual({
+      ledger: { version: LEDGER_VERSION, alerts: [v0Record] },
+      fromVersion: 0,
+    });
+  });
+
+  it('rejects files from a newer version', () => {
+    expect(() => parseLedger({ version: LEDGER_VERSION + 1, alerts: [] }, filePath)).toThrow(
+      `this version reads up to ${LEDGER_VERSION}`
+    );
+  });
+
+  it('lists every invalid record', () => {
+    expect(() => parseLedger({ version: 1, alerts: [{ ticker: 'AAPL' }, 'x'] }, filePath)).toThrow(
+      /alerts\[0\]\.reportDate.*\n.*alerts\[0\]\.sentAt.*\n.*alerts\[1\]: must be an object/
+    );
+  });
+
+  it('rejects objects without a version', () => {
+    expect(() => parseLedger({ alerts: [] }, filePath)).toThrow('expected {"version"');
+  });
+});
+
+describe('ledger migration', () => {
+  it("doesn't rewrite a version 0 file on load", async () => {
+    const original = JSON.stringify([v0Record]);
+    writeFileSync(filePath, original);
+
+    expect(await loadLedger(filePath)).toEqual([v0Record]);
+    expect(readFileSync(filePath, 'utf-8')).toBe(original);
+  });
+
+  it("doesn't rewrite a version 0 file on a dry-run prune", async () => {
+    const original = JSON.stringify([v0Record]);
+    writeFileSync(filePath, original);
+
+    expect(await pruneLedger(new Date('2026-10-20T00:00:00Z'), true, filePath)).toBe(1);
+    expect(readFileSync(filePath, 'utf-8')).toBe(original);
+  });
+
+  it('migrates a version 0 file on the next write', async () => {
+    writeFileSync(filePath, JSON.stringify([v0Record]));
+    const record: SentAlert = { ticker: 'MSFT', reportDate: '2026-10-22', sentAt: '2026-10-20T13:00:00.000Z' };
+
+    await appendToLedger([record], filePath);
+
+    expect(JSON.parse(readFileSync(filePath, 'utf-8'))).toEqual({ version: LEDGER_VERSION, alerts: [v0Record, record] });
+  });
+});
+
+describe('ledger lock', () => {
+  const record: SentAlert = { ticker: 'MSFT', reportDate: '2026-10-22', sentAt: '2026-10-20T13:00:00.000Z' };
+  const writeLock = (pid: number) =>
+    writeFileSync(`${filePath}.lock`, JSON.stringify({ pid, acquiredAt: '2026-10-20T13:00:00.000Z' }));
+
+  it('takes over a lock whose process has exited', async () => {
+    writeLock(spawnSync(process.execPath, ['-e', '']).pid!);
+
+    await appendToLedger([record], filePath);
+
+    expect(await loadLedger(filePath)).toEqual([record]);
+    expect(readdirSync(dir)).toEqual(['sent-alerts.json']);
+  });
+
+  it('takes over a lock held too long by a running process', async () => {
+    writeLock(process.ppid);
+    const old = new Date(Date.now() - 6_000);
+    utimesSync(`${filePath}.lock`, old, old);
+
+    await appendToLedger([record], filePath);
+
+    expect(await loadLedger(filePath)).toEqual([record]);
+    expect(readdirSync(dir)).toEqual(['sent-alerts.json']);
+  });
+});
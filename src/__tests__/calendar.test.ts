@@ -0,0 +1,156 @@
+import { execFileSync } from 'child_process';
+import { join } from 'path';
+import { getNYSEHolidays, isTradingDay, getNextTradingDay, tradingDaysUntil } from '../calendar';
+import { parseDateKey, toDateKey } from '../market-clock';
+
+const day = (key: string) => parseDateKey(key)!;
+const key = toDateKey;
+
+/**
+ * Published NYSE holiday lists, the reference for the rule-based generator
+ */
+const PUBLISHED_NYSE_HOLIDAYS: Record<number, string[]> = {
+  // New Year's Day is a Saturday: not observed
+  2022: [
+    '2022-01-17', // Martin Luther King Jr. Day
+    '2022-02-21', // Presidents Day
+    '2022-04-15', // Good Friday
+    '2022-05-30', // Memorial Day
+    '2022-06-20', // Juneteenth (observed - June 19 is Sunday)
+    '2022-07-04', // Independence Day
+    '2022-09-05', // Labor Day
+    '2022-11-24', // Thanksgiving Day
+    '2022-12-26', // Christmas Day (observed - December 25 is Sunday)
+  ],
+  2025: [
+    '2025-01-01', // New Year's Day
+    '2025-01-20', // Martin Luther King Jr. Day
+    '2025-02-17', // Presidents Day
+    '2025-04-18', // Good Friday
+    '2025-05-26', // Memorial Day
+    '2025-06-19', // Juneteenth
+    '2025-07-04', // Independence Day
+    '2025-09-01', // Labor Day
+    '2025-11-27', // Thanksgiving Day
+    '2025-12-25', // Christmas Day
+  ],
+  2026: [
+    '2026-01-01', // New Year's Day
+    '2026-01-19', // Martin Luther King Jr. Day
+    '2026-02-16', // Presidents Day
+    '2026-04-03', // Good Friday
+    '2026-05-25', // Memorial Day
+    '2026-06-19', // Juneteenth
+    '2026-07-03', // Independence Day (observed - July 4 is Saturday)
+    '2026-09-07', // Labor Day
+    '2026-11-26', // Thanksgiving Day
+    '2026-12-25', // Christmas Day
+  ],
+  2027: [
+    '2027-01-01', // New Year's Day
+    '2027-01-18', // Martin Luther King Jr. Day
+    '2027-02-15', // Presidents Day
+    '2027-03-26', // Good Friday
+    '2027-05-31', // Memorial Day
+    '2027-06-18', // Juneteenth (observed - June 19 is Saturday)
+    '2027-07-05', // Independence Day (observed - July 4 is Sunday)
+    '2027-09-06', // Labor Day
+    '2027-11-25', // Thanksgiving Day
+    '2027-12-24', // Christmas Day (observed - December 25 is Saturday)
+  ],
+};
+
+describe('NYSE holiday rules', () => {
+  it.each(Object.keys(PUBLISHED_NYSE_HOLIDAYS).map(Number))('match the published NYSE list for %i', (year) => {
+    expect(getNYSEHolidays(year)).toEqual(PUBLISHED_NYSE_HOLIDAYS[year]);
+  });
+
+  it("don't move New Year's Day on a Saturday to the Friday before", () => {
+    expect(isTradingDay(day('2021-12-31'))).toBe(true);
+    expect(isTradingDay(day('2027-12-31'))).toBe(true);
+    expect(getNYSEHolidays(2028)).not.toContain('2027-12-31');
+    expect(getNYSEHolidays(2028)[0]).toBe('2028-01-17'); // Martin Luther King Jr. Day
+  });
+
+  it('keep working for years without a published list', () => {
+    expect(getNYSEHolidays(2035)).toEqual([
+      '2035-01-01',
+      '2035-01-15',
+      '2035-02-19',
+      '2035-03-23', // Good Friday (Easter is March 25)
+      '2035-05-28',
+      '2035-06-19',
+      '2035-07-04',
+      '2035-09-03',
+      '2035-11-22',
+      '2035-12-25',
+    ]);
+  });
+});
+
+describe('trading days', () => {
+  it('skips weekends and holidays', () => {
+    expect(isTradingDay(day('2025-11-27'))).toBe(false); // Thanksgiving
+    expect(isTradingDay(day('2025-11-29'))).toBe(false); // Saturday
+    expect(isTradingDay(day('2025-11-28'))).toBe(true);
+    expect(key(getNextTradingDay(day('2025-11-26')))).toBe('2025-11-28');
+  });
+
+  it('counts trading days between dates', () => {
+    expect(tradingDaysUntil(day('2025-11-25'), day('2025-12-01'))).toBe(3);
+  });
+});
+
+/**
+ * Run calendar functions in a child process with the runner in another
+ * timezone (jest's process.env is a copy, so TZ can't be changed in-process)
+ */
+function inTimeZone(timeZone: string): Record<string, unknown> {
+  const script = `
+    const c = require('./src/calendar');
+    const { parseDateKey, toDateKey } = require('./src/market-clock');
+    const day = (key) => parseDateKey(key);
+    console.log(JSON.stringify({
+      range: c.getTradingDaysInRange(day('2026-03-26'), day('2026-04-01')).map(toDateKey),
+      longRange: c.getTradingDaysInRange(day('2026-03-05'), day('2026-04-01')).length,
+      until: c.tradingDaysUntil(day('2026-03-26'), day('2026-04-01')),
+      back: c.tradingDaysUntil(day('2026-04-01'), day('2026-03-26')),
+      next: toDateKey(c.getNextTradingDay(day('2026-03-27'))),
+      previous: toDateKey(c.getPreviousTradingDay(day('2026-03-30'))),
+      holidays: c.getNYSEHolidays(2026, 2027),
+      earlyClose: c.isEarlyClose(day('2026-11-27')),
+    }));
+  `;
+  const output = execFileSync(process.execPath, ['-r', 'ts-node/register/transpile-only', '-e', script], {
+    cwd: join(__dirname, '..', '..'),
+    env: { ...process.env, TZ: timeZone },
+    encoding: 'utf-8',
+  });
+  return JSON.parse(output);
+}
+
+// Daylight saving starts on March 8 (Los Angeles) and March 29 (Berlin) in 2026
+describe('runner timezone', () => {
+  let expected: Record<string, unknown>;
+
+  beforeAll(() => {
+    expected = inTimeZone('UTC');
+  });
+
+  it('gives the expected results in UTC', () => {
+    expect(expected).toEqual({
+      range: ['2026-03-26', '2026-03-27', '2026-03-30', '2026-03-31', '2026-04-01'],
+      longRange: 20,
+      until: 4,
+      back: -4,
+      next: '2026-03-30',
+      previous: '2026-03-27',
+      holidays: [...PUBLISHED_NYSE_HOLIDAYS[2026], ...PUBLISHED_NYSE_HOLIDAYS[2027]],
+      earlyClose: true,
+    });
+  });
+
+  it.each(['Europe/Berlin', 'America/Los_Angeles', 'Asia/Tokyo'])("doesn't change the results in %s", (timeZone) => {
+    expect(inTimeZone(timeZone)).toEqual(expected);
+  });
+});
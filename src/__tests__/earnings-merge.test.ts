@@ -0,0 +1,76 @@
+import { mergeEarningsReports, SourceReports } from '../earnings-merge';
+import { parseDateKey, toDateKey } from '../market-clock';
+import { EarningsReport } from '../types';
+
+const today = parseDateKey('2026-10-19')!;
+
+function report(ticker: string, date: string, dateConfirmed?: boolean): EarningsReport {
+  return {
+    ticker,
+    company: ticker,
+    reportDate: parseDateKey(date)!,
+    timeOfDay: 'postmarket',
+    ...(dateConfirmed !== undefined ? { dateConfirmed } : {}),
+  };
+}
+
+function source(name: string, priority: number, reports: EarningsReport[]): SourceReports {
+  return { source: name, priority, reports };
+}
+
+const summary = (reports: EarningsReport[]) => reports.map((r) => [r.ticker, toDateKey(r.reportDate), r.source]);
+
+describe('mergeEarningsReports', () => {
+  it('takes upcoming rows from the best priority when nothing is confirmed', () => {
+    const { reports, conflicts } = mergeEarningsReports(
+      [source('IR', 2, [report('AAPL', '2026-10-30')]), source('FactSet', 1, [report('AAPL', '2026-10-29')])],
+      today
+    );
+    expect(summary(reports)).toEqual([['AAPL', '2026-10-29', 'FactSet']]);
+    expect(conflicts).toHaveLength(1);
+    expect(conflicts[0].others).toEqual([{ source: 'IR', reportDate: parseDateKey('2026-10-30') }]);
+  });
+
+  it('lets a confirmed upcoming date beat a better-priority estimate', () => {
+    const { reports, conflicts } = mergeEarningsReports(
+      [
+        source('FactSet', 1, [report('AAPL', '2026-10-29', false)]),
+        source('IR', 2, [report('AAPL', '2026-10-30', true)]),
+      ],
+      today
+    );
+    expect(summary(reports)).toEqual([['AAPL', '2026-10-30', 'IR']]);
+    expect(conflicts[0].report.source).toBe('IR');
+    expect(conflicts[0].others[0]).toMatchObject({ source: 'FactSet', dateConfirmed: false });
+  });
+
+  it('never drops an upcoming date for a confirmed past one', () => {
+    const { reports, conflicts } = mergeEarningsReports(
+      [
+        source('FactSet', 1, [report('AAPL', '2026-10-29')]),
+        source('IR', 2, [report('AAPL', '2026-07-30', true)]),
+      ],
+      today
+    );
+    expect(summary(reports)).toEqual([
+      ['AAPL', '2026-07-30', 'IR'],
+      ['AAPL', '2026-10-29', 'FactSet'],
+    ]);
+    expect(conflicts).toEqual([]);
+  });
+
+  it('does not flag sources that agree', () => {
+    const { reports, conflicts } = mergeEarningsReports(
+      [
+        source('FactSet', 1, [report('MSFT', '2026-10-28'), report('NVDA', '2026-11-19')]),
+        source('IR', 2, [report('MSFT', '2026-10-28', true)]),
+      ],
+      today
+    );
+    expect(summary(reports)).toEqual([
+      ['MSFT', '2026-10-28', 'IR'],
+      ['NVDA', '2026-11-19', 'FactSet'],
+    ]);
+    expect(conflicts).toEqual([]);
+  });
+});
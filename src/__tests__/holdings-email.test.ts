@@ -0,0 +1,54 @@
+jest.mock('../google-auth', () => ({}));
+
+import { parseHoldingsCSV, getPortfolioWeights } from '../holdings-email';
+
+/**
+ * Build a holdings CSV from rows of [account, ticker, weight]
+ */
+function csv(weightHeader: string, rows: [string, string, string][]): string {
+  return [`Account,StockTicker,${weightHeader}`, ...rows.map((row) => row.join(','))].join('\n');
+}
+
+const tickers = (n: number) => Array.from({ length: n }, (_, i) => `T${String.fromCharCode(65 + (i % 26))}${String.fromCharCode(65 + Math.floor(i / 26))}`);
+
+beforeEach(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('parseHoldingsCSV weights', () => {
+  it('keeps small percent weights of a diversified fund as percent', () => {
+    const holdings = parseHoldingsCSV(csv('Weight', tickers(150).map((t) => ['FUND', t, '0.6667'])));
+    expect(holdings[0].weight).toBeCloseTo(0.6667);
+
+    const total = Object.values(getPortfolioWeights(holdings)).reduce((sum, w) => sum + w, 0);
+    expect(total).toBeCloseTo(100, 0);
+  });
+
+  it('reads weights adding up to about 1 per account as fractions', () => {
+    const holdings = parseHoldingsCSV(
+      csv('Weight', [
+        ['A', 'AAPL', '0.6'],
+        ['A', 'MSFT', '0.35'],
+        ['B', 'AAPL', '0.9'],
+      ])
+    );
+    expect(holdings.map((h) => h.weight)).toEqual([60, 35, 90]);
+    expect(getPortfolioWeights(holdings)).toEqual({ AAPL: 75, MSFT: 17.5 });
+  });
+
+  it('trusts a percent header or % cells', () => {
+    expect(parseHoldingsCSV(csv('% of Net Assets', [['A', 'AAPL', '0.5']]))[0].weight).toBe(0.5);
+    expect(parseHoldingsCSV(csv('Weight', [['A', 'AAPL', '0.5%']]))[0].weight).toBe(0.5);
+  });
+
+  it('works out weights from market values when every row has one', () => {
+    const holdings = parseHoldingsCSV(
+      ['Account,StockTicker,MarketValue', 'A,AAPL,"$300.00"', 'A,MSFT,100', 'B,AAPL,100'].join('\n')
+    );
+    expect(getPortfolioWeights(holdings)).toEqual({ AAPL: 80, MSFT: 20 });
+  });
+});
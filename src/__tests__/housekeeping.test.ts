@@ -0,0 +1,75 @@
+import { mkdtempSync, writeFileSync, readdirSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+let mockSnapshotsDir: string;
+const mockPrune = jest.fn();
+const mockClose = jest.fn();
+
+jest.mock('../snapshot', () => ({
+  get SNAPSHOTS_DIR() {
+    return mockSnapshotsDir;
+  },
+}));
+jest.mock('../sent-alert-store', () => ({
+  getSentAlertStore: () => ({ description: 'test store', prune: mockPrune, close: mockClose }),
+}));
+
+import { runHousekeeping } from '../housekeeping';
+import { validateSettings } from '../settings';
+import { marketToday, toDateKey } from '../market-clock';
+
+// Simulations and logs are kept long enough that nothing real in data/ is removed
+const settings = validateSettings({ retention: { sentAlerts: 90, snapshots: 30, simulations: 100000, logs: 100000 } });
+
+let warnings: string[];
+
+beforeEach(() => {
+  mockSnapshotsDir = mkdtempSync(join(tmpdir(), 'housekeeping-'));
+  writeFileSync(join(mockSnapshotsDir, '2020-01-02.json'), '{}');
+  writeFileSync(join(mockSnapshotsDir, `${toDateKey(marketToday())}.json`), '{}');
+  mockPrune.mockReset();
+  mockClose.mockReset();
+  warnings = [];
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  jest.spyOn(console, 'warn').mockImplementation((...args) => {
+    warnings.push(args.join(' '));
+  });
+});
+
+afterEach(() => {
+  rmSync(mockSnapshotsDir, { recursive: true, force: true });
+  jest.restoreAllMocks();
+});
+
+describe('runHousekeeping', () => {
+  it('still prunes the other data when the sent-alert store fails', async () => {
+    mockPrune.mockRejectedValue(new Error('database is locked'));
+
+    const results = await runHousekeeping(settings);
+
+    expect(results.map((r) => [r.artifact, r.removed, r.error])).toEqual([
+      ['sent alerts', 0, 'database is locked'],
+      ['snapshots', 1, undefined],
+      ['simulations', 0, undefined],
+      ['logs', 0, undefined],
+    ]);
+    expect(mockClose).toHaveBeenCalled();
+    expect(readdirSync(mockSnapshotsDir)).toEqual([`${toDateKey(marketToday())}.json`]);
+    expect(warnings).toEqual(['  [WARN] Could not prune sent alerts: database is locked']);
+  });
+
+  it('reports no errors when everything is pruned', async () => {
+    mockPrune.mockResolvedValue(2);
+
+    const results = await runHousekeeping(settings);
+
+    expect(results.map((r) => [r.artifact, r.removed, r.error])).toEqual([
+      ['sent alerts in test store', 2, undefined],
+      ['snapshots', 1, undefined],
+      ['simulations', 0, undefined],
+      ['logs', 0, undefined],
+    ]);
+    expect(warnings).toEqual([]);
+  });
+});
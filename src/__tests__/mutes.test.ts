@@ -0,0 +1,98 @@
+import { validateMutes, applyMutes } from '../mutes';
+import { AlertDue, AlertSection, EarningsReport, MuteRule } from '../types';
+
+const day = (key: string) => new Date(`${key}T00:00:00Z`);
+
+function report(ticker: string, date: string): EarningsReport {
+  return { ticker, company: ticker, reportDate: day(date), timeOfDay: 'premarket' };
+}
+
+function section(id: string, reports: EarningsReport[]): AlertSection {
+  const alerts: AlertDue[] = reports.map((r) => ({
+    report: r,
+    alertDate: r.reportDate,
+    reportDateFormatted: '',
+    daysUntilReport: 1,
+  }));
+  return {
+    definition: {
+      id,
+      title: id,
+      audience: 'watchlist',
+      window: { from: { day: 0, session: 'premarket' }, to: { day: 5, session: 'premarket' } },
+      color: '#1976d2',
+      urgent: false,
+      subject: '{n} upcoming',
+    },
+    alerts,
+  };
+}
+
+const tickersIn = (sections: AlertSection[]) => sections.map((s) => s.alerts.map((a) => a.report.ticker));
+const emptyState = { version: 1, consumed: {} };
+
+describe('validateMutes', () => {
+  it('lists every problem', () => {
+    expect(() =>
+      validateMutes(
+        {
+          mutes: [
+            { ticker: 'ABC', until: '2026-02-30' },
+            { ticker: 'DEF', reports: 1 },
+            { ticker: 'GHI', sections: ['nope'] },
+          ],
+        },
+        ['watchlistUpcoming']
+      )
+    ).toThrow(/invalid "until" date[\s\S]*needs a "since" date[\s\S]*unknown section "nope"/);
+  });
+
+  it('upper-cases tickers', () => {
+    expect(validateMutes({ mutes: [{ ticker: ' xyz ' }] }, [])).toEqual([{ ticker: 'XYZ' }]);
+  });
+});
+
+describe('applyMutes', () => {
+  it('mutes through the "until" date', () => {
+    const rules: MuteRule[] = [{ ticker: 'ABC', until: '2026-10-20' }];
+    const sections = [section('watchlistUpcoming', [report('ABC', '2026-10-22'), report('XYZ', '2026-10-22')])];
+
+    expect(tickersIn(applyMutes(sections, rules, emptyState, [], day('2026-10-20')).sections)).toEqual([['XYZ']]);
+    expect(tickersIn(applyMutes(sections, rules, emptyState, [], day('2026-10-21')).sections)).toEqual([['ABC', 'XYZ']]);
+  });
+
+  it('only mutes the listed sections', () => {
+    const rules: MuteRule[] = [{ ticker: 'ABC', sections: ['watchlistUpcoming'] }];
+    const sections = [section('watchlistPremarket', [report('ABC', '2026-10-20')]), section('watchlistUpcoming', [report('ABC', '2026-10-22')])];
+
+    const result = applyMutes(sections, rules, emptyState, [], day('2026-10-19'));
+    expect(tickersIn(result.sections)).toEqual([['ABC'], []]);
+    expect(result.muted.map((m) => m.sectionId)).toEqual(['watchlistUpcoming']);
+  });
+
+  it('uses up one report per new date for "reports" rules', () => {
+    const rules: MuteRule[] = [{ ticker: 'ABC', reports: 1, since: '2026-10-01' }];
+    const first = report('ABC', '2026-10-22');
+    const next = report('ABC', '2027-01-21');
+
+    const result = applyMutes([section('watchlistUpcoming', [first])], rules, emptyState, [first], day('2026-10-19'));
+    expect(result.muted).toHaveLength(1);
+    expect(result.state.consumed).toEqual({ 'ABC|2026-10-01': ['2026-10-22'] });
+
+    // The same report stays muted; the one after it doesn't
+    const again = applyMutes([section('watchlistUpcoming', [first])], rules, result.state, [first], day('2026-10-20'));
+    expect(again.muted).toHaveLength(1);
+    const later = applyMutes([section('watchlistUpcoming', [next])], rules, result.state, [next], day('2027-01-15'));
+    expect(later.muted).toHaveLength(0);
+  });
+
+  it('releases a used-up date when the report moves', () => {
+    const rules: MuteRule[] = [{ ticker: 'ABC', reports: 1, since: '2026-10-01' }];
+    const moved = report('ABC', '2026-10-29');
+    const state = { version: 1, consumed: { 'ABC|2026-10-01': ['2026-10-22'] } };
+
+    const result = applyMutes([section('watchlistUpcoming', [moved])], rules, state, [moved], day('2026-10-19'));
+    expect(result.muted).toHaveLength(1);
+    expect(result.state.consumed).toEqual({ 'ABC|2026-10-01': ['2026-10-29'] });
+  });
+});
@@ -0,0 +1,49 @@
+jest.mock('../google-auth', () => ({}));
+
+import { mkdtempSync, existsSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import Database from 'better-sqlite3';
+import { createSqliteSentAlertStore } from '../sent-alert-store';
+
+const cutoff = new Date('2026-10-20T00:00:00Z');
+
+let dir: string;
+let filePath: string;
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), 'sent-alert-store-'));
+  filePath = join(dir, 'sent-alerts.sqlite');
+});
+
+afterEach(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+describe('SQLite store dry runs', () => {
+  it("doesn't create the database", async () => {
+    const store = createSqliteSentAlertStore(filePath);
+
+    expect(await store.prune(cutoff, true)).toBe(0);
+    expect(await store.load()).toEqual([]);
+    store.close();
+
+    expect(existsSync(filePath)).toBe(false);
+  });
+
+  it('counts old records without migrating the database', async () => {
+    // Version 0 layout
+    const db = new Database(filePath);
+    db.exec('CREATE TABLE sent_alerts (ticker TEXT NOT NULL, report_date TEXT NOT NULL, section_id TEXT, alert_date TEXT, sent_at TEXT NOT NULL)');
+    db.prepare('INSERT INTO sent_alerts (ticker, report_date, sent_at) VALUES (?, ?, ?)').run('AAPL', '2026-10-21', '2026-10-19T13:00:00.000Z');
+    db.close();
+
+    const store = createSqliteSentAlertStore(filePath);
+    expect(await store.prune(cutoff, true)).toBe(1);
+    store.close();
+
+    const check = new Database(filePath, { readonly: true });
+    expect(check.pragma('user_version', { simple: true })).toBe(0);
+    check.close();
+  });
+});
@@ -0,0 +1,24 @@
+import { validateSettings } from '../settings';
+
+describe('validateSettings earnings sources', () => {
+  it('defaults priorities to 1 for the main source and 2, 3, ... for the others', () => {
+    const settings = validateSettings({
+      additionalEarningsSources: [
+        { type: 'csv', path: 'data/ir.csv' },
+        { type: 'json', path: 'data/fixture.json' },
+      ],
+    });
+    expect(settings.earningsSource).toEqual({ type: 'sheet', priority: 1 });
+    expect(settings.additionalEarningsSources.map((s) => s.priority)).toEqual([2, 3]);
+  });
+
+  it('rejects duplicate priorities', () => {
+    expect(() =>
+      validateSettings({ additionalEarningsSources: [{ type: 'csv', path: 'data/ir.csv', priority: 1 }] })
+    ).toThrow('additionalEarningsSources[0].priority: 1 is also the priority of earningsSource');
+  });
+
+  it('requires a path for file sources', () => {
+    expect(() => validateSettings({ earningsSource: { type: 'csv' } })).toThrow('earningsSource.path: required');
+  });
+});
@@ -0,0 +1,67 @@
+import { categorizeMarketTime, parseReportTime } from '../time-of-day';
+
+// A regular session and the early close after Thanksgiving
+const regularDay = new Date(Date.UTC(2026, 9, 21));
+const earlyClose = new Date(Date.UTC(2026, 10, 27));
+
+// Default ranges: pre-market 05:00-09:30, post-market 16:00-20:00
+describe('categorizeMarketTime', () => {
+  it.each([
+    ['05:00', 'premarket'],
+    ['09:30', 'premarket'],
+    ['12:00', 'intraday'],
+    ['16:00', 'postmarket'],
+    ['20:00', 'postmarket'],
+  ])('puts %s in the configured ranges', (time, timeOfDay) => {
+    expect(categorizeMarketTime(time)).toBe(timeOfDay);
+  });
+
+  it.each([['00:30'], ['04:59'], ['20:01'], ['23:00']])('leaves %s outside the ranges unknown', (time) => {
+    expect(categorizeMarketTime(time)).toBe('unknown');
+  });
+
+  it('starts post-market at an early close but keeps its end', () => {
+    expect(categorizeMarketTime('13:30', '13:00')).toBe('postmarket');
+    expect(categorizeMarketTime('21:00', '13:00')).toBe('unknown');
+  });
+});
+
+describe('parseReportTime', () => {
+  it.each([
+    ['BMO', 'premarket'],
+    ['After Market Close', 'postmarket'],
+    ['Before Market Open (confirmed)', 'premarket'],
+  ])('reads the alias %p', (text, timeOfDay) => {
+    expect(parseReportTime(text, regularDay)).toEqual({ timeOfDay, time: null });
+  });
+
+  it.each([
+    ['0530', 'premarket', '05:30'],
+    ['9:45am', 'intraday', '09:45'],
+    ['4:30 PM ET', 'postmarket', '16:30'],
+  ])('categorises the clock time %p', (text, timeOfDay, time) => {
+    expect(parseReportTime(text, regularDay)).toMatchObject({ timeOfDay, time });
+  });
+
+  it('converts other timezones to ET on the report date', () => {
+    expect(parseReportTime('12:00 GMT', regularDay)).toEqual({ timeOfDay: 'premarket', time: '08:00', timezone: 'GMT' });
+    expect(parseReportTime('23:30 GMT', regularDay)).toEqual({ timeOfDay: 'postmarket', time: '19:30', timezone: 'GMT' });
+  });
+
+  it('keeps the clock time of reports outside the ranges', () => {
+    expect(parseReportTime('07:00 GMT', regularDay)).toEqual({ timeOfDay: 'unknown', time: '03:00', timezone: 'GMT' });
+  });
+
+  it('counts a time on the previous ET day as pre-market', () => {
+    expect(parseReportTime('2:00 AM JST', regularDay)).toMatchObject({ timeOfDay: 'premarket', time: '13:00' });
+  });
+
+  it('starts post-market at the close on early-close days', () => {
+    expect(parseReportTime('1:30 PM', regularDay).timeOfDay).toBe('intraday');
+    expect(parseReportTime('1:30 PM', earlyClose).timeOfDay).toBe('postmarket');
+  });
+
+  it.each([[''], [null], ['prepared'], ['pre or post market']])('reads %p as unknown', (text) => {
+    expect(parseReportTime(text, regularDay)).toEqual({ timeOfDay: 'unknown', time: null });
+  });
+});
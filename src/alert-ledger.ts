@@ -0,0 +1,365 @@
+/**
+ * Alert Ledger for Earnings Alerts
+ *
+ * Reads and writes the sent-alerts JSON file (data/sent-alerts.json):
+ * - Versioned schema: { "version": 1, "alerts": [...] }. Version 0 files
+ *   (a bare array) are read as-is and migrated on the next write.
+ * - Atomic writes: the new file is written to a temp file and renamed over
+ *   the old one, so a crash never leaves a half-written ledger.
+ * - Locking: updates hold <file>.lock (created exclusively) so two
+ *   processes can't clobber each other's read-modify-write. Locks whose
+ *   process is gone, or older than LOCK_STALE_MS, are assumed abandoned and
+ *   removed.
+ *
+ * Reads don't take the lock; with atomic renames they always see a
+ * complete file.
+ */
+
+import {
+  readFileSync,
+  writeFileSync,
+  existsSync,
+  mkdirSync,
+  openSync,
+  closeSync,
+  fstatSync,
+  unlinkSync,
+  renameSync,
+  linkSync,
+} from 'fs';
+import { join, dirname } from 'path';
+import { SentAlert, SentAlertLedger } from './types';
+
+// Path to the default ledger
+const DATA_DIR = join(__dirname, '..', 'data');
+export const SENT_ALERTS_FILE = join(DATA_DIR, 'sent-alerts.json');
+
+export const LEDGER_VERSION = 1;
+
+// Lock timing (an update takes milliseconds; a lock must turn stale well
+// before a waiting run gives up)
+const LOCK_RETRY_MS = 100;
+const LOCK_TIMEOUT_MS = 10_000;
+const LOCK_STALE_MS = 5_000;
+
+// ============================================================================
+// Schema
+// ============================================================================
+
+/**
+ * Validate one record, adding problems to errors
+ */
+function validateRecord(raw: any, index: number, errors: string[]): SentAlert {
+  const label = `alerts[${index}]`;
+  if (!raw || typeof raw !== 'object') {
+    errors.push(`${label}: must be an object`);
+    return raw;
+  }
+
+  for (const key of ['ticker', 'reportDate', 'sentAt']) {
+    if (typeof raw[key] !== 'string' || raw[key] === '') {
+      errors.push(`${label}.${key}: must be a non-empty string`);
+    }
+  }
+  if (raw.alertDaysBefore !== undefined && !Number.isInteger(raw.alertDaysBefore)) {
+    errors.push(`${label}.alertDaysBefore: must be a whole number`);
+  }
+  if (raw.recipients !== undefined && !(Array.isArray(raw.recipients) && raw.recipients.every((r: unknown) => typeof r === 'string'))) {
+    errors.push(`${label}.recipients: must be an array of addresses`);
+  }
+
+  return raw as SentAlert;
+}
+
+/**
+ * Check for the versioned layout: {"version": n, "alerts": [...]}
+ */
+function isVersionedLedger(raw: unknown): raw is { version: number; alerts: unknown[] } {
+  if (!raw || typeof raw !== 'object') return false;
+  const { version, alerts } = raw as Record<string, unknown>;
+  return Number.isInteger(version) && Array.isArray(alerts);
+}
+
+/**
+ * Parse a ledger file's contents, migrating older versions
+ *
+ * @param raw - Parsed JSON
+ * @param filePath - File path (for error messages)
+ * @returns Current-version ledger and the version it was read as
+ * @throws Error if the file is invalid or from a newer version
+ */
+export function parseLedger(raw: unknown, filePath = SENT_ALERTS_FILE): { ledger: SentAlertLedger; fromVersion: number } {
+  let fromVersion: number;
+  let records: unknown[];
+
+  if (Array.isArray(raw)) {
+    // v0: bare array; records may carry alertDaysBefore
+    fromVersion = 0;
+    records = raw;
+  } else if (isVersionedLedger(raw)) {
+    fromVersion = raw.version;
+    records = raw.alerts;
+  } else {
+    throw new Error(`Invalid sent alerts in ${filePath}: expected {"version": ${LEDGER_VERSION}, "alerts": [...]}`);
+  }
+
+  if (fromVersion > LEDGER_VERSION) {
+    throw new Error(
+      `Sent alerts in ${filePath} are version ${fromVersion}; this version reads up to ${LEDGER_VERSION}`
+    );
+  }
+
+  const errors: string[] = [];
+  const alerts = records.map((record, i) => validateRecord(record, i, errors));
+  if (errors.length > 0) {
+    throw new Error(`Invalid sent alerts in ${filePath}:\n  ${errors.join('\n  ')}`);
+  }
+
+  return { ledger: { version: LEDGER_VERSION, alerts }, fromVersion };
+}
+
+/**
+ * Read the ledger file (an empty ledger if it doesn't exist)
+ */
+function readLedger(filePath: string): { ledger: SentAlertLedger; fromVersion: number } {
+  if (!existsSync(filePath)) {
+    return { ledger: { version: LEDGER_VERSION, alerts: [] }, fromVersion: LEDGER_VERSION };
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(filePath, 'utf-8'));
+  } catch (error: any) {
+    throw new Error(`Invalid JSON in ${filePath}: ${error.message}`);
+  }
+  return parseLedger(raw, filePath);
+}
+
+/**
+ * Write the ledger via a temp file and rename
+ */
+function writeLedgerAtomic(filePath: string, ledger: SentAlertLedger): void {
+  if (!existsSync(dirname(filePath))) {
+    mkdirSync(dirname(filePath), { recursive: true });
+  }
+
+  const tempPath = `${filePath}.${process.pid}.tmp`;
+  writeFileSync(tempPath, JSON.stringify(ledger, null, 2), 'utf-8');
+  renameSync(tempPath, filePath);
+}
+
+// ============================================================================
+// Locking
+// ============================================================================
+
+/**
+ * A lock file as read from disk
+ */
+interface LockFile {
+  content: string;   // {"pid": ..., "acquiredAt": ...} (empty if its writer crashed)
+  ino: number;
+  mtimeMs: number;
+}
+
+/**
+ * Read a lock file (null if it doesn't exist)
+ */
+function readLock(lockPath: string): LockFile | null {
+  let fd: number;
+  try {
+    fd = openSync(lockPath, 'r');
+  } catch {
+    return null;
+  }
+  try {
+    const { ino, mtimeMs } = fstatSync(fd);
+    return { content: readFileSync(fd, 'utf-8'), ino, mtimeMs };
+  } finally {
+    closeSync(fd);
+  }
+}
+
+/**
+ * Check whether a process is running on this machine
+ */
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error: any) {
+    return error.code === 'EPERM';
+  }
+}
+
+/**
+ * Check whether a lock was abandoned: its process is gone, or it is older
+ * than LOCK_STALE_MS
+ */
+function isStaleLock(lock: LockFile): boolean {
+  let pid: unknown;
+  try {
+    pid = JSON.parse(lock.content).pid;
+  } catch {
+    // Written partially; only its age tells
+  }
+  if (Number.isInteger(pid) && pid !== process.pid && !isProcessAlive(pid as number)) {
+    return true;
+  }
+  return Date.now() - lock.mtimeMs > LOCK_STALE_MS;
+}
+
+/**
+ * Remove a stale lock, unless another process replaced it since it was read
+ *
+ * The lock is renamed to a name of our own first, so only the file that was
+ * inspected is deleted; a lock taken in between is put back.
+ */
+function removeStaleLock(lockPath: string, inspected: LockFile): void {
+  const claimedPath = `${lockPath}.${process.pid}.${Date.now()}.stale`;
+  try {
+    renameSync(lockPath, claimedPath);
+  } catch {
+    return; // Released or removed by someone else
+  }
+
+  const claimed = readLock(claimedPath);
+  if (claimed && claimed.ino === inspected.ino && claimed.content === inspected.content) {
+    console.warn(`[WARN] Removed stale lock ${lockPath}`);
+  } else {
+    try {
+      linkSync(claimedPath, lockPath);
+    } catch {
+      // A newer lock is already in place
+    }
+  }
+  unlinkSync(claimedPath);
+}
+
+/**
+ * Try to create the lock file; removes it first if it looks abandoned
+ *
+ * @returns Content written to the lock if it was acquired, else null
+ */
+function tryAcquireLock(lockPath: string): string | null {
+  const content = JSON.stringify({ pid: process.pid, acquiredAt: new Date().toISOString() });
+  try {
+    const fd = openSync(lockPath, 'wx');
+    writeFileSync(fd, content);
+    closeSync(fd);
+    return content;
+  } catch (error: any) {
+    if (error.code !== 'EEXIST') {
+      throw error;
+    }
+  }
+
+  const lock = readLock(lockPath);
+  if (lock && isStaleLock(lock)) {
+    removeStaleLock(lockPath, lock);
+  }
+  return null;
+}
+
+/**
+ * Run fn while holding the ledger's lock file
+ *
+ * @throws Error if the lock can't be acquired within LOCK_TIMEOUT_MS
+ */
+async function withLedgerLock<T>(filePath: string, fn: () => T): Promise<T> {
+  const lockPath = `${filePath}.lock`;
+  if (!existsSync(dirname(lockPath))) {
+    mkdirSync(dirname(lockPath), { recursive: true });
+  }
+
+  const deadline = Date.now() + LOCK_TIMEOUT_MS;
+  let owned: string | null;
+  while ((owned = tryAcquireLock(lockPath)) === null) {
+    if (Date.now() > deadline) {
+      throw new Error(`Timed out waiting for ${lockPath} (another run is updating sent alerts)`);
+    }
+    await new Promise((resolve) => setTimeout(resolve, LOCK_RETRY_MS));
+  }
+
+  try {
+    return fn();
+  } finally {
+    // Only release our own lock (another run may have taken it as stale)
+    if (readLock(lockPath)?.content === owned) {
+      unlinkSync(lockPath);
+    }
+  }
+}
+
+// ============================================================================
+// Ledger Operations
+// ============================================================================
+
+/**
+ * Update the ledger under its lock
+ *
+ * @param update - Returns the new list of records
+ * @param filePath - Ledger file (default: data/sent-alerts.json)
+ * @returns The records written
+ */
+export async function updateLedger(
+  update: (alerts: SentAlert[]) => SentAlert[],
+  filePath = SENT_ALERTS_FILE
+): Promise<SentAlert[]> {
+  return withLedgerLock(filePath, () => {
+    const { ledger } = readLedger(filePath);
+    const alerts = update(ledger.alerts);
+    writeLedgerAtomic(filePath, { version: LEDGER_VERSION, alerts });
+    return alerts;
+  });
+}
+
+/**
+ * Load the records in the ledger
+ *
+ * Older files are read as the current version but not rewritten (so dry
+ * runs leave them alone); the next update writes them in the new format.
+ *
+ * @param filePath - Ledger file (default: data/sent-alerts.json)
+ * @throws Error if the file is invalid
+ */
+export async function loadLedger(filePath = SENT_ALERTS_FILE): Promise<SentAlert[]> {
+  const { ledger, fromVersion } = readLedger(filePath);
+  if (fromVersion !== LEDGER_VERSION) {
+    console.log(`[INFO] ${filePath} is version ${fromVersion}; it will be migrated to version ${LEDGER_VERSION} on the next write`);
+  }
+  return ledger.alerts;
+}
+
+/**
+ * Append records to the ledger
+ *
+ * @param records - Records to add
+ * @param filePath - Ledger file (default: data/sent-alerts.json)
+ */
+export async function appendToLedger(records: SentAlert[], filePath = SENT_ALERTS_FILE): Promise<void> {
+  await updateLedger((alerts) => [...alerts, ...records], filePath);
+}
+
+/**
+ * Remove records sent before a cutoff
+ *
+ * @param before - Records sent before this instant are removed
+ * @param dryRun - Only count the records that would be removed
+ * @param filePath - Ledger file (default: data/sent-alerts.json)
+ * @returns Number of records removed (or that would be)
+ */
+export async function pruneLedger(before: Date, dryRun = false, filePath = SENT_ALERTS_FILE): Promise<number> {
+  const isOld = (alert: SentAlert) => new Date(alert.sentAt) < before;
+
+  if (dryRun || !existsSync(filePath)) {
+    return readLedger(filePath).ledger.alerts.filter(isOld).length;
+  }
+
+  let removed = 0;
+  await updateLedger((alerts) => {
+    const kept = alerts.filter((alert) => !isOld(alert));
+    removed = alerts.length - kept.length;
+    return kept;
+  }, filePath);
+  return removed;
+}
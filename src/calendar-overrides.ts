@@ -0,0 +1,170 @@
+/**
+ * Calendar Overrides for Earnings Alerts
+ *
+ * Loads config/calendar-overrides.json so unscheduled NYSE closures
+ * (national days of mourning, weather, system outages), extra early
+ * closes and forced open days can be added without a code change.
+ * Overrides apply to the US (NYSE/NASDAQ) calendar.
+ *
+ * File format:
+ * {
+ *   "closures":    [{ "date": "2025-01-09", "reason": "National Day of Mourning" }],
+ *   "earlyCloses": [{ "date": "2025-07-03", "close": "13:00", "reason": "..." }],
+ *   "openDays":    [{ "date": "2025-04-18", "reason": "..." }]
+ * }
+ */
+
+import { readFileSync, existsSync } from 'fs';
+import { join } from 'path';
+import { CalendarOverrides, setCalendarOverrides } from './calendar';
+
+// Config path
+const CONFIG_DIR = join(__dirname, '..', 'config');
+const CALENDAR_OVERRIDES_FILE = join(CONFIG_DIR, 'calendar-overrides.json');
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+/**
+ * Check that a string is a real calendar date in YYYY-MM-DD format
+ */
+function isValidDateString(value: unknown): value is string {
+  if (typeof value !== 'string' || !DATE_PATTERN.test(value)) {
+    return false;
+  }
+  const date = new Date(`${value}T00:00:00Z`);
+  return !isNaN(date.getTime()) && date.toISOString().startsWith(value);
+}
+
+/**
+ * Validate a single override entry's date and reason
+ */
+function validateEntry(
+  entry: any,
+  label: string,
+  index: number,
+  errors: string[]
+): { date: string; reason: string } | null {
+  const where = `${label}[${index}]`;
+
+  if (!entry || typeof entry !== 'object') {
+    errors.push(`${where}: must be an object with "date" and "reason"`);
+    return null;
+  }
+  if (!isValidDateString(entry.date)) {
+    errors.push(`${where}: invalid date "${entry.date}" (expected YYYY-MM-DD)`);
+    return null;
+  }
+  if (typeof entry.reason !== 'string' || !entry.reason.trim()) {
+    errors.push(`${where}: missing "reason" for ${entry.date}`);
+    return null;
+  }
+
+  return { date: entry.date, reason: entry.reason.trim() };
+}
+
+/**
+ * Validate raw calendar overrides JSON
+ *
+ * @param raw - Parsed JSON content
+ * @returns Validated overrides
+ * @throws Error listing every problem found
+ */
+export function validateCalendarOverrides(raw: unknown): CalendarOverrides {
+  const errors: string[] = [];
+  const overrides: CalendarOverrides = { closures: [], earlyCloses: [], openDays: [] };
+
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new Error('Calendar overrides must be a JSON object');
+  }
+
+  const config = raw as Record<string, unknown>;
+
+  for (const key of ['closures', 'earlyCloses', 'openDays'] as const) {
+    const entries = config[key];
+    if (entries === undefined) continue;
+
+    if (!Array.isArray(entries)) {
+      errors.push(`${key}: must be an array`);
+      continue;
+    }
+
+    entries.forEach((entry, index) => {
+      const validated = validateEntry(entry, key, index, errors);
+      if (!validated) return;
+
+      if (key === 'earlyCloses') {
+        const close = entry.close;
+        if (typeof close !== 'string' || !TIME_PATTERN.test(close)) {
+          errors.push(`${key}[${index}]: invalid close time "${close}" (expected HH:mm)`);
+          return;
+        }
+        if (close <= '09:30' || close >= '16:00') {
+          errors.push(`${key}[${index}]: close time ${close} must be between 09:30 and 16:00`);
+          return;
+        }
+        overrides.earlyCloses.push({ ...validated, close });
+      } else {
+        overrides[key].push(validated);
+      }
+    });
+  }
+
+  // A date can only appear in one list
+  const seen = new Map<string, string>();
+  for (const key of ['closures', 'earlyCloses', 'openDays'] as const) {
+    for (const entry of overrides[key]) {
+      const previous = seen.get(entry.date);
+      if (previous) {
+        errors.push(`${entry.date}: listed in both ${previous} and ${key}`);
+      } else {
+        seen.set(entry.date, key);
+      }
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new Error(
+      `Invalid calendar overrides (${CALENDAR_OVERRIDES_FILE}):\n` +
+        errors.map((e) => `  - ${e}`).join('\n')
+    );
+  }
+
+  return overrides;
+}
+
+/**
+ * Load calendar overrides from config file
+ *
+ * @returns Validated overrides (empty if the file doesn't exist)
+ * @throws Error if the file is not valid JSON or fails validation
+ */
+export function loadCalendarOverrides(): CalendarOverrides {
+  if (!existsSync(CALENDAR_OVERRIDES_FILE)) {
+    return { closures: [], earlyCloses: [], openDays: [] };
+  }
+
+  const content = readFileSync(CALENDAR_OVERRIDES_FILE, 'utf-8');
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(content);
+  } catch (error: any) {
+    throw new Error(`Invalid JSON in calendar overrides: ${error.message}`);
+  }
+
+  return validateCalendarOverrides(raw);
+}
+
+/**
+ * Load calendar overrides and merge them into the NYSE calendar
+ *
+ * Call once at startup, before any trading-day calculations.
+ *
+ * @returns The overrides that were applied
+ */
+export function applyCalendarOverrides(): CalendarOverrides {
+  const overrides = loadCalendarOverrides();
+  setCalendarOverrides(overrides);
+  return overrides;
+}
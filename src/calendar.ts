@@ -1,25 +1,29 @@
 /**
- * NYSE Trading Calendar
+ * Trading Calendars
  *
- * Provides functions to work with NYSE trading days.
- * Handles weekends and US market holidays.
+ * Provides functions to work with exchange trading days.
+ * Handles weekends and market holidays for NYSE (shared by NASDAQ),
+ * TSX and LSE. All functions default to the NYSE calendar, which is
+ * also the calendar emails are sent on.
+ *
+ * Dates are calendar dates at UTC midnight (see market-clock.ts).
  */
 
-import { addDays, isBefore, isAfter, isSameDay } from 'date-fns';
+import { isBefore, isAfter } from 'date-fns';
+import { Exchange } from './types';
+import { toDateKey, isSameMarketDay, marketToday, addCalendarDays } from './market-clock';
 
 /**
- * NYSE Holidays 2025-2026
- *
- * Hardcoded holidays are simpler and sufficient for a 2-year window.
- * Update this list annually or switch to a library if longer range needed.
+ * NYSE Holiday Rules
  *
- * Holiday list from NYSE:
- * - New Year's Day
+ * Holidays are computed from the NYSE rules for any year, so the calendar
+ * doesn't silently run out at the end of a hardcoded list:
+ * - New Year's Day (January 1)
  * - Martin Luther King Jr. Day (3rd Monday of January)
  * - Presidents Day (3rd Monday of February)
- * - Good Friday (varies)
+ * - Good Friday (2 days before Easter Sunday)
  * - Memorial Day (last Monday of May)
- * - Juneteenth National Independence Day (June 19)
+ * - Juneteenth National Independence Day (June 19, from 2022)
  * - Independence Day (July 4)
  * - Labor Day (first Monday of September)
  * - Thanksgiving Day (4th Thursday of November)
@@ -27,45 +31,377 @@ import { addDays, isBefore, isAfter, isSameDay } from 'date-fns';
  *
  * Note: When a holiday falls on Saturday, NYSE observes Friday.
  *       When a holiday falls on Sunday, NYSE observes Monday.
+ *       Exception: New Year's Day on a Saturday is not observed at all
+ *       (the Friday before is the last trading day of the year).
  */
-const NYSE_HOLIDAYS: string[] = [
-  // 2025
-  '2025-01-01', // New Year's Day
-  '2025-01-20', // Martin Luther King Jr. Day
-  '2025-02-17', // Presidents Day
-  '2025-04-18', // Good Friday
-  '2025-05-26', // Memorial Day
-  '2025-06-19', // Juneteenth
-  '2025-07-04', // Independence Day
-  '2025-09-01', // Labor Day
-  '2025-11-27', // Thanksgiving Day
-  '2025-12-25', // Christmas Day
-
-  // 2026
-  '2026-01-01', // New Year's Day
-  '2026-01-19', // Martin Luther King Jr. Day
-  '2026-02-16', // Presidents Day
-  '2026-04-03', // Good Friday
-  '2026-05-25', // Memorial Day
-  '2026-06-19', // Juneteenth
-  '2026-07-03', // Independence Day (observed - July 4 is Saturday)
-  '2026-09-07', // Labor Day
-  '2026-11-26', // Thanksgiving Day
-  '2026-12-25', // Christmas Day
-];
-
-// Convert to Set for O(1) lookups
-const NYSE_HOLIDAY_SET = new Set(NYSE_HOLIDAYS);
-
-/**
- * Convert a Date to a date-only string (YYYY-MM-DD) in UTC
- * Uses UTC to ensure consistency regardless of local timezone
- */
-function toDateString(date: Date): string {
-  const year = date.getUTCFullYear();
-  const month = String(date.getUTCMonth() + 1).padStart(2, '0');
-  const day = String(date.getUTCDate()).padStart(2, '0');
-  return `${year}-${month}-${day}`;
+
+// First year NYSE closed for Juneteenth
+const JUNETEENTH_FIRST_YEAR = 2022;
+
+// Computed holidays per calendar and year (date string -> holiday name)
+const holidayCache = new Map<string, Map<string, string>>();
+
+/**
+ * Build a UTC midnight Date from year, month (0-based) and day
+ */
+function utcDate(year: number, month: number, day: number): Date {
+  return new Date(Date.UTC(year, month, day));
+}
+
+/**
+ * Get the nth occurrence of a weekday in a month
+ *
+ * @param weekday - Day of week (Sunday = 0)
+ * @param n - 1 for first, 2 for second, etc.
+ */
+function nthWeekdayOfMonth(year: number, month: number, weekday: number, n: number): Date {
+  const first = utcDate(year, month, 1);
+  const offset = (weekday - first.getUTCDay() + 7) % 7;
+  return utcDate(year, month, 1 + offset + (n - 1) * 7);
+}
+
+/**
+ * Get the last occurrence of a weekday in a month
+ */
+function lastWeekdayOfMonth(year: number, month: number, weekday: number): Date {
+  const last = utcDate(year, month + 1, 0);
+  const offset = (last.getUTCDay() - weekday + 7) % 7;
+  return utcDate(year, month, last.getUTCDate() - offset);
+}
+
+/**
+ * Get Easter Sunday for a year (Anonymous Gregorian algorithm)
+ */
+function easterSunday(year: number): Date {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return utcDate(year, month - 1, day);
+}
+
+/**
+ * Shift a fixed-date holiday to its observed weekday
+ * Saturday -> Friday, Sunday -> Monday
+ */
+function observed(date: Date): Date {
+  const day = date.getUTCDay();
+  if (day === 6) return addCalendarDays(date, -1);
+  if (day === 0) return addCalendarDays(date, 1);
+  return date;
+}
+
+/**
+ * Apply Saturday/Sunday observance to a fixed-date holiday, marking the name
+ */
+function observedHoliday(date: Date, name: string): [Date, string] {
+  const actual = observed(date);
+  return [actual, actual === date ? name : `${name} (observed)`];
+}
+
+/**
+ * Compute the NYSE holidays for a single year
+ *
+ * @param year - Calendar year
+ * @returns Map of date string (YYYY-MM-DD) to holiday name
+ */
+function computeNYSEHolidays(year: number): Map<string, string> {
+  const holidays: [Date, string][] = [];
+
+  // New Year's Day: Sunday -> Monday, but Saturday is not moved to Friday
+  const newYears = utcDate(year, 0, 1);
+  if (newYears.getUTCDay() === 0) {
+    holidays.push([addCalendarDays(newYears, 1), "New Year's Day (observed)"]);
+  } else if (newYears.getUTCDay() !== 6) {
+    holidays.push([newYears, "New Year's Day"]);
+  }
+
+  holidays.push([nthWeekdayOfMonth(year, 0, 1, 3), 'Martin Luther King Jr. Day']);
+  holidays.push([nthWeekdayOfMonth(year, 1, 1, 3), 'Presidents Day']);
+  holidays.push([addCalendarDays(easterSunday(year), -2), 'Good Friday']);
+  holidays.push([lastWeekdayOfMonth(year, 4, 1), 'Memorial Day']);
+
+  if (year >= JUNETEENTH_FIRST_YEAR) {
+    holidays.push(observedHoliday(utcDate(year, 5, 19), 'Juneteenth'));
+  }
+
+  holidays.push(observedHoliday(utcDate(year, 6, 4), 'Independence Day'));
+  holidays.push([nthWeekdayOfMonth(year, 8, 1, 1), 'Labor Day']);
+  holidays.push([nthWeekdayOfMonth(year, 10, 4, 4), 'Thanksgiving Day']);
+  holidays.push(observedHoliday(utcDate(year, 11, 25), 'Christmas Day'));
+
+  return new Map(holidays.map(([date, name]) => [toDateKey(date), name]));
+}
+
+/**
+ * Shift a fixed-date holiday to the following Monday if it falls on a weekend
+ * (Canadian and UK substitute-day rule)
+ */
+function mondayIfWeekend(date: Date): Date {
+  const day = date.getUTCDay();
+  if (day === 6) return addCalendarDays(date, 2);
+  if (day === 0) return addCalendarDays(date, 1);
+  return date;
+}
+
+/**
+ * Apply the Canadian/UK substitute-day rule to a fixed-date holiday
+ */
+function substituteHoliday(date: Date, name: string): [Date, string] {
+  const actual = mondayIfWeekend(date);
+  return [actual, actual === date ? name : `${name} (observed)`];
+}
+
+/**
+ * Christmas Day and Boxing Day with Canadian/UK substitute days
+ *
+ * Both holidays always get a weekday: a weekend Christmas or Boxing Day
+ * moves to the next weekday not already taken by the other.
+ */
+function christmasAndBoxingDay(year: number): [Date, string][] {
+  const christmas = utcDate(year, 11, 25);
+  switch (christmas.getUTCDay()) {
+    case 5: // Friday: Boxing Day (Saturday) -> Monday 28th
+      return [[christmas, 'Christmas Day'], [utcDate(year, 11, 28), 'Boxing Day (observed)']];
+    case 6: // Saturday: Christmas -> Monday 27th, Boxing Day -> Tuesday 28th
+      return [
+        [utcDate(year, 11, 27), 'Christmas Day (observed)'],
+        [utcDate(year, 11, 28), 'Boxing Day (observed)'],
+      ];
+    case 0: // Sunday: Boxing Day Monday 26th, Christmas -> Tuesday 27th
+      return [[utcDate(year, 11, 26), 'Boxing Day'], [utcDate(year, 11, 27), 'Christmas Day (observed)']];
+    default:
+      return [[christmas, 'Christmas Day'], [utcDate(year, 11, 26), 'Boxing Day']];
+  }
+}
+
+/**
+ * Compute the TSX (Toronto) holidays for a single year
+ *
+ * New Year's Day, Family Day (3rd Monday of February), Good Friday,
+ * Victoria Day (Monday before May 25), Canada Day, Civic Holiday
+ * (1st Monday of August), Labour Day, Thanksgiving (2nd Monday of
+ * October), Christmas Day and Boxing Day.
+ */
+function computeTSXHolidays(year: number): Map<string, string> {
+  const may24 = utcDate(year, 4, 24);
+  const victoriaDay = addCalendarDays(may24, -((may24.getUTCDay() + 6) % 7));
+
+  const holidays: [Date, string][] = [
+    substituteHoliday(utcDate(year, 0, 1), "New Year's Day"),
+    [nthWeekdayOfMonth(year, 1, 1, 3), 'Family Day'],
+    [addCalendarDays(easterSunday(year), -2), 'Good Friday'],
+    [victoriaDay, 'Victoria Day'],
+    substituteHoliday(utcDate(year, 6, 1), 'Canada Day'),
+    [nthWeekdayOfMonth(year, 7, 1, 1), 'Civic Holiday'],
+    [nthWeekdayOfMonth(year, 8, 1, 1), 'Labour Day'],
+    [nthWeekdayOfMonth(year, 9, 1, 2), 'Thanksgiving Day'],
+    ...christmasAndBoxingDay(year),
+  ];
+
+  return new Map(holidays.map(([date, name]) => [toDateKey(date), name]));
+}
+
+/**
+ * Compute the LSE (London) holidays for a single year
+ *
+ * New Year's Day, Good Friday, Easter Monday, Early May bank holiday
+ * (1st Monday of May), Spring bank holiday (last Monday of May), Summer
+ * bank holiday (last Monday of August), Christmas Day and Boxing Day.
+ * One-off bank holidays (e.g. royal events) go in the overrides file.
+ */
+function computeLSEHolidays(year: number): Map<string, string> {
+  const easter = easterSunday(year);
+
+  const holidays: [Date, string][] = [
+    substituteHoliday(utcDate(year, 0, 1), "New Year's Day"),
+    [addCalendarDays(easter, -2), 'Good Friday'],
+    [addCalendarDays(easter, 1), 'Easter Monday'],
+    [nthWeekdayOfMonth(year, 4, 1, 1), 'Early May bank holiday'],
+    [lastWeekdayOfMonth(year, 4, 1), 'Spring bank holiday'],
+    [lastWeekdayOfMonth(year, 7, 1), 'Summer bank holiday'],
+    ...christmasAndBoxingDay(year),
+  ];
+
+  return new Map(holidays.map(([date, name]) => [toDateKey(date), name]));
+}
+
+/**
+ * Get the holidays for a calendar and year (cached)
+ */
+function getHolidaysForYear(rules: ExchangeCalendarRules, year: number): Map<string, string> {
+  const key = `${rules.calendarId}:${year}`;
+  let holidays = holidayCache.get(key);
+  if (!holidays) {
+    holidays = rules.computeHolidays(year);
+    holidayCache.set(key, holidays);
+  }
+  return holidays;
+}
+
+// ============================================================================
+// Trading Sessions
+// ============================================================================
+
+/**
+ * A single trading session
+ */
+export interface TradingSession {
+  date: string;          // YYYY-MM-DD
+  exchange: Exchange;
+  open: string;          // HH:mm, exchange local time
+  close: string;         // HH:mm, exchange local time
+  timezone: string;      // IANA timezone of open/close
+  timezoneLabel: string; // Display label, e.g. "ET"
+  earlyClose: boolean;
+  reason?: string;       // Why the session closes early
+}
+
+/**
+ * Holiday and session rules for one exchange calendar
+ */
+interface ExchangeCalendarRules {
+  calendarId: string;    // Cache key, shared by exchanges with the same rules
+  timezone: string;
+  timezoneLabel: string;
+  open: string;          // Regular session times (24-hour, local)
+  close: string;
+  earlyClose: string;
+  computeHolidays: (year: number) => Map<string, string>;
+  getEarlyCloseReason: (date: Date) => string | null;
+  usesOverrides: boolean; // Whether config/calendar-overrides.json applies
+}
+
+const NYSE_RULES: ExchangeCalendarRules = {
+  calendarId: 'NYSE',
+  timezone: 'America/New_York',
+  timezoneLabel: 'ET',
+  open: '09:30',
+  close: '16:00',
+  earlyClose: '13:00',
+  computeHolidays: computeNYSEHolidays,
+  getEarlyCloseReason: getNYSEEarlyCloseReason,
+  usesOverrides: true,
+};
+
+const TSX_RULES: ExchangeCalendarRules = {
+  calendarId: 'TSX',
+  timezone: 'America/Toronto',
+  timezoneLabel: 'ET',
+  open: '09:30',
+  close: '16:00',
+  earlyClose: '13:00',
+  computeHolidays: computeTSXHolidays,
+  getEarlyCloseReason: (date) =>
+    toDateKey(date).endsWith('-12-24') ? 'Christmas Eve' : null,
+  usesOverrides: false,
+};
+
+const LSE_RULES: ExchangeCalendarRules = {
+  calendarId: 'LSE',
+  timezone: 'Europe/London',
+  timezoneLabel: 'UK time',
+  open: '08:00',
+  close: '16:30',
+  earlyClose: '12:30',
+  computeHolidays: computeLSEHolidays,
+  getEarlyCloseReason: (date) => {
+    const dateStr = toDateKey(date);
+    if (dateStr.endsWith('-12-24')) return 'Christmas Eve';
+    if (dateStr.endsWith('-12-31')) return "New Year's Eve";
+    return null;
+  },
+  usesOverrides: false,
+};
+
+/**
+ * Calendar registry keyed by exchange (NASDAQ shares the NYSE rules)
+ */
+const EXCHANGE_CALENDARS: Record<Exchange, ExchangeCalendarRules> = {
+  NYSE: NYSE_RULES,
+  NASDAQ: NYSE_RULES,
+  TSX: TSX_RULES,
+  LSE: LSE_RULES,
+};
+
+/**
+ * Exchange name aliases (lowercase) accepted by parseExchange()
+ */
+const EXCHANGE_ALIASES: Record<string, Exchange> = {
+  nyse: 'NYSE',
+  xnys: 'NYSE',
+  'new york': 'NYSE',
+  'nyse american': 'NYSE',
+  nasdaq: 'NASDAQ',
+  xnas: 'NASDAQ',
+  tsx: 'TSX',
+  xtse: 'TSX',
+  toronto: 'TSX',
+  lse: 'LSE',
+  xlon: 'LSE',
+  london: 'LSE',
+};
+
+/**
+ * Get the list of exchanges with a trading calendar
+ */
+export function getSupportedExchanges(): Exchange[] {
+  return Object.keys(EXCHANGE_CALENDARS) as Exchange[];
+}
+
+/**
+ * Parse an exchange name or MIC code into a supported Exchange
+ *
+ * @param value - e.g. "NYSE", "Nasdaq", "XTSE", "London"
+ * @returns Exchange, or null if not recognised
+ */
+export function parseExchange(value: string | undefined | null): Exchange | null {
+  if (!value) return null;
+  return EXCHANGE_ALIASES[value.trim().toLowerCase()] ?? null;
+}
+
+// ============================================================================
+// Calendar Overrides
+// ============================================================================
+
+/**
+ * Unscheduled closures, early closes and forced open days
+ * (loaded from config/calendar-overrides.json, see calendar-overrides.ts)
+ */
+export interface CalendarOverrides {
+  closures: { date: string; reason: string }[];
+  earlyCloses: { date: string; close: string; reason: string }[];
+  openDays: { date: string; reason: string }[];
+}
+
+let overrideClosures = new Map<string, string>();
+let overrideEarlyCloses = new Map<string, { close: string; reason: string }>();
+let overrideOpenDays = new Map<string, string>();
+
+/**
+ * Merge calendar overrides into the US (NYSE/NASDAQ) calendar
+ *
+ * Replaces any previously applied overrides. Overrides take precedence
+ * over the holiday and early-close rules.
+ *
+ * @param overrides - Validated overrides
+ */
+export function setCalendarOverrides(overrides: CalendarOverrides): void {
+  overrideClosures = new Map(overrides.closures.map((o) => [o.date, o.reason]));
+  overrideEarlyCloses = new Map(
+    overrides.earlyCloses.map((o) => [o.date, { close: o.close, reason: o.reason }])
+  );
+  overrideOpenDays = new Map(overrides.openDays.map((o) => [o.date, o.reason]));
 }
 
 /**
@@ -78,43 +414,125 @@ function isWeekend(date: Date): boolean {
 }
 
 /**
- * Check if a date is an NYSE holiday
+ * Get the reason for an NYSE early close (1:00 PM) on a date
+ *
+ * Rules:
+ * - Day after Thanksgiving
+ * - Christmas Eve, when it is a weekday trading day
+ * - July 3rd, when Independence Day falls Tuesday-Friday
+ *
+ * @returns Reason string, or null for a regular session
  */
-function isNYSEHoliday(date: Date): boolean {
-  return NYSE_HOLIDAY_SET.has(toDateString(date));
+function getNYSEEarlyCloseReason(date: Date): string | null {
+  const year = date.getUTCFullYear();
+  const dateStr = toDateKey(date);
+
+  const thanksgiving = nthWeekdayOfMonth(year, 10, 4, 4);
+  if (dateStr === toDateKey(addCalendarDays(thanksgiving, 1))) {
+    return 'Day after Thanksgiving';
+  }
+
+  if (dateStr === `${year}-12-24`) {
+    return 'Christmas Eve';
+  }
+
+  const independenceDay = utcDate(year, 6, 4).getUTCDay();
+  if (dateStr === `${year}-07-03` && independenceDay >= 2 && independenceDay <= 5) {
+    return 'Independence Day eve';
+  }
+
+  return null;
+}
+
+/**
+ * Check if a date is a holiday on an exchange calendar
+ */
+function isHoliday(date: Date, rules: ExchangeCalendarRules): boolean {
+  return getHolidaysForYear(rules, date.getUTCFullYear()).has(toDateKey(date));
 }
 
 /**
  * Check if a given date is a trading day
  *
  * @param date - The date to check
- * @returns true if the NYSE is open on this date, false otherwise
+ * @param exchange - Exchange calendar to use (default: NYSE)
+ * @returns true if the exchange is open on this date, false otherwise
  *
  * @example
  * isTradingDay(new Date('2025-01-02')) // true - Thursday
  * isTradingDay(new Date('2025-01-01')) // false - New Year's Day
  * isTradingDay(new Date('2025-01-04')) // false - Saturday
+ * isTradingDay(new Date('2025-05-19'), 'TSX') // false - Victoria Day
  */
-export function isTradingDay(date: Date): boolean {
+export function isTradingDay(date: Date, exchange: Exchange = 'NYSE'): boolean {
+  const rules = EXCHANGE_CALENDARS[exchange];
+  if (rules.usesOverrides) {
+    const dateStr = toDateKey(date);
+    if (overrideOpenDays.has(dateStr)) return true;
+    if (overrideClosures.has(dateStr)) return false;
+  }
   if (isWeekend(date)) return false;
-  if (isNYSEHoliday(date)) return false;
+  if (isHoliday(date, rules)) return false;
   return true;
 }
 
+/**
+ * Get the trading session for a date
+ *
+ * @param date - The date to check
+ * @param exchange - Exchange calendar to use (default: NYSE)
+ * @returns Session with open/close times, or null if the market is closed
+ *
+ * @example
+ * getTradingSession(new Date('2025-11-28')) // { open: '09:30', close: '13:00', earlyClose: true, ... }
+ * getTradingSession(new Date('2025-11-27')) // null - Thanksgiving
+ */
+export function getTradingSession(date: Date, exchange: Exchange = 'NYSE'): TradingSession | null {
+  if (!isTradingDay(date, exchange)) return null;
+
+  const rules = EXCHANGE_CALENDARS[exchange];
+  const dateStr = toDateKey(date);
+  const override = rules.usesOverrides ? overrideEarlyCloses.get(dateStr) : undefined;
+  const reason = override ? override.reason : rules.getEarlyCloseReason(date);
+
+  return {
+    date: dateStr,
+    exchange,
+    open: rules.open,
+    close: override?.close ?? (reason ? rules.earlyClose : rules.close),
+    timezone: rules.timezone,
+    timezoneLabel: rules.timezoneLabel,
+    earlyClose: reason !== null,
+    ...(reason ? { reason } : {}),
+  };
+}
+
+/**
+ * Check if the exchange closes early on a date
+ *
+ * @param date - The date to check
+ * @param exchange - Exchange calendar to use (default: NYSE)
+ * @returns true if the date is a trading day with an early close
+ */
+export function isEarlyClose(date: Date, exchange: Exchange = 'NYSE'): boolean {
+  return getTradingSession(date, exchange)?.earlyClose ?? false;
+}
+
 /**
  * Get the next trading day after a given date
  *
  * @param date - The starting date
+ * @param exchange - Exchange calendar to use (default: NYSE)
  * @returns The next date that is a trading day
  *
  * @example
  * getNextTradingDay(new Date('2025-01-03')) // 2025-01-06 (Monday after Friday)
  * getNextTradingDay(new Date('2025-12-24')) // 2025-12-26 (day after Christmas)
  */
-export function getNextTradingDay(date: Date): Date {
-  let next = addDays(date, 1);
-  while (!isTradingDay(next)) {
-    next = addDays(next, 1);
+export function getNextTradingDay(date: Date, exchange: Exchange = 'NYSE'): Date {
+  let next = addCalendarDays(date, 1);
+  while (!isTradingDay(next, exchange)) {
+    next = addCalendarDays(next, 1);
   }
   return next;
 }
@@ -123,16 +541,17 @@ export function getNextTradingDay(date: Date): Date {
  * Get the previous trading day before a given date
  *
  * @param date - The starting date
+ * @param exchange - Exchange calendar to use (default: NYSE)
  * @returns The most recent date before this one that is a trading day
  *
  * @example
  * getPreviousTradingDay(new Date('2025-01-06')) // 2025-01-03 (Friday before Monday)
  * getPreviousTradingDay(new Date('2025-01-02')) // 2025-12-31 (day before New Year's)
  */
-export function getPreviousTradingDay(date: Date): Date {
-  let prev = addDays(date, -1);
-  while (!isTradingDay(prev)) {
-    prev = addDays(prev, -1);
+export function getPreviousTradingDay(date: Date, exchange: Exchange = 'NYSE'): Date {
+  let prev = addCalendarDays(date, -1);
+  while (!isTradingDay(prev, exchange)) {
+    prev = addCalendarDays(prev, -1);
   }
   return prev;
 }
@@ -144,11 +563,12 @@ export function getPreviousTradingDay(date: Date): Date {
  * Otherwise, returns the previous trading day.
  *
  * @param date - The date to check
+ * @param exchange - Exchange calendar to use (default: NYSE)
  * @returns The date if it's a trading day, or the previous trading day
  */
-export function getTradingDayOnOrBefore(date: Date): Date {
-  if (isTradingDay(date)) return date;
-  return getPreviousTradingDay(date);
+export function getTradingDayOnOrBefore(date: Date, exchange: Exchange = 'NYSE'): Date {
+  if (isTradingDay(date, exchange)) return date;
+  return getPreviousTradingDay(date, exchange);
 }
 
 /**
@@ -158,11 +578,12 @@ export function getTradingDayOnOrBefore(date: Date): Date {
  * Otherwise, returns the next trading day.
  *
  * @param date - The date to check
+ * @param exchange - Exchange calendar to use (default: NYSE)
  * @returns The date if it's a trading day, or the next trading day
  */
-export function getTradingDayOnOrAfter(date: Date): Date {
-  if (isTradingDay(date)) return date;
-  return getNextTradingDay(date);
+export function getTradingDayOnOrAfter(date: Date, exchange: Exchange = 'NYSE'): Date {
+  if (isTradingDay(date, exchange)) return date;
+  return getNextTradingDay(date, exchange);
 }
 
 /**
@@ -170,6 +591,7 @@ export function getTradingDayOnOrAfter(date: Date): Date {
  *
  * @param from - Start date (inclusive if it's a trading day)
  * @param to - End date (inclusive if it's a trading day)
+ * @param exchange - Exchange calendar to use (default: NYSE)
  * @returns Number of trading days. Negative if 'to' is before 'from'.
  *
  * @example
@@ -182,25 +604,25 @@ export function getTradingDayOnOrAfter(date: Date): Date {
  * // Backwards
  * tradingDaysUntil(new Date('2025-01-10'), new Date('2025-01-03')) // -5
  */
-export function tradingDaysUntil(from: Date, to: Date): number {
+export function tradingDaysUntil(from: Date, to: Date, exchange: Exchange = 'NYSE'): number {
   // Normalize to start of day (UTC)
   const fromNorm = new Date(Date.UTC(from.getUTCFullYear(), from.getUTCMonth(), from.getUTCDate()));
   const toNorm = new Date(Date.UTC(to.getUTCFullYear(), to.getUTCMonth(), to.getUTCDate()));
 
   // Same day
-  if (isSameDay(fromNorm, toNorm)) return 0;
+  if (isSameMarketDay(fromNorm, toNorm)) return 0;
 
   // Determine direction
   const isForward = isBefore(fromNorm, toNorm);
 
   let count = 0;
-  let current = isForward ? addDays(fromNorm, 1) : addDays(fromNorm, -1);
+  let current = isForward ? addCalendarDays(fromNorm, 1) : addCalendarDays(fromNorm, -1);
 
   while (isForward ? !isAfter(current, toNorm) : !isBefore(current, toNorm)) {
-    if (isTradingDay(current)) {
+    if (isTradingDay(current, exchange)) {
       count++;
     }
-    current = isForward ? addDays(current, 1) : addDays(current, -1);
+    current = isForward ? addCalendarDays(current, 1) : addCalendarDays(current, -1);
   }
 
   return isForward ? count : -count;
@@ -211,27 +633,78 @@ export function tradingDaysUntil(from: Date, to: Date): number {
  *
  * @param from - Start date (inclusive)
  * @param to - End date (inclusive)
+ * @param exchange - Exchange calendar to use (default: NYSE)
  * @returns Array of Date objects for each trading day in the range
  */
-export function getTradingDaysInRange(from: Date, to: Date): Date[] {
+export function getTradingDaysInRange(from: Date, to: Date, exchange: Exchange = 'NYSE'): Date[] {
   const result: Date[] = [];
   let current = new Date(Date.UTC(from.getUTCFullYear(), from.getUTCMonth(), from.getUTCDate()));
   const endNorm = new Date(Date.UTC(to.getUTCFullYear(), to.getUTCMonth(), to.getUTCDate()));
 
   while (!isAfter(current, endNorm)) {
-    if (isTradingDay(current)) {
+    if (isTradingDay(current, exchange)) {
       result.push(new Date(current));
     }
-    current = addDays(current, 1);
+    current = addCalendarDays(current, 1);
   }
 
   return result;
 }
 
 /**
- * Get the list of NYSE holidays
+ * Get the list of holidays on an exchange calendar for a range of years
+ *
+ * @param exchange - Exchange calendar to use
+ * @param fromYear - First year (inclusive, default: current year)
+ * @param toYear - Last year (inclusive, default: fromYear)
+ * @returns Sorted array of holiday date strings (YYYY-MM-DD)
+ */
+export function getExchangeHolidays(
+  exchange: Exchange,
+  fromYear: number = marketToday().getUTCFullYear(),
+  toYear: number = fromYear
+): string[] {
+  const rules = EXCHANGE_CALENDARS[exchange];
+  const result: string[] = [];
+  for (let year = fromYear; year <= toYear; year++) {
+    result.push(...getHolidaysForYear(rules, year).keys());
+  }
+  return result.sort();
+}
+
+/**
+ * Get the list of NYSE holidays for a range of years
  * Useful for debugging or displaying calendar info
+ *
+ * @param fromYear - First year (inclusive, default: current year)
+ * @param toYear - Last year (inclusive, default: fromYear)
+ * @returns Sorted array of holiday date strings (YYYY-MM-DD)
+ *
+ * @example
+ * getNYSEHolidays(2027) // ['2027-01-01', '2027-01-18', ...]
+ * getNYSEHolidays(2025, 2026) // 20 dates
+ */
+export function getNYSEHolidays(
+  fromYear: number = marketToday().getUTCFullYear(),
+  toYear: number = fromYear
+): string[] {
+  return getExchangeHolidays('NYSE', fromYear, toYear);
+}
+
+/**
+ * Get the name of the holiday (or override closure) on a date
+ *
+ * @param date - The date to check
+ * @param exchange - Exchange calendar to use (default: NYSE)
+ * @returns Holiday name, or null if the date is not a holiday
  */
-export function getNYSEHolidays(): string[] {
-  return [...NYSE_HOLIDAYS];
+export function getHolidayName(date: Date, exchange: Exchange = 'NYSE'): string | null {
+  const rules = EXCHANGE_CALENDARS[exchange];
+  const dateStr = toDateKey(date);
+  if (rules.usesOverrides) {
+    if (overrideOpenDays.has(dateStr)) return null;
+    const closure = overrideClosures.get(dateStr);
+    if (closure) return closure;
+  }
+  return getHolidaysForYear(rules, date.getUTCFullYear()).get(dateStr) ?? null;
 }
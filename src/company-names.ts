@@ -0,0 +1,88 @@
+/**
+ * Company Names for Earnings Alerts
+ *
+ * Fills in EarningsReport.company, using in order:
+ * 1. A company name column in the earnings tab (found by header, see sheets.ts)
+ * 2. SecurityName from the holdings CSV
+ * 3. config/security-master.csv (Ticker, Name), for names neither has
+ * Otherwise the ticker is shown.
+ */
+
+import { readFileSync, existsSync } from 'fs';
+import { join } from 'path';
+import { EarningsReport, Holding } from './types';
+import { parseCSVLine } from './holdings-email';
+
+// Config path
+const CONFIG_DIR = join(__dirname, '..', 'config');
+export const SECURITY_MASTER_FILE = join(CONFIG_DIR, 'security-master.csv');
+
+// Accepted header names (lowercase, punctuation removed)
+const TICKER_HEADERS = ['ticker', 'symbol', 'stockticker'];
+const NAME_HEADERS = ['name', 'companyname', 'company', 'securityname'];
+
+/**
+ * Load the security master: ticker -> company name
+ *
+ * @param filePath - CSV file (default: config/security-master.csv)
+ * @returns Names by uppercase ticker (none if the file doesn't exist)
+ * @throws Error if the file has no Ticker / Name header
+ */
+export function loadSecurityMaster(filePath = SECURITY_MASTER_FILE): Record<string, string> {
+  if (!existsSync(filePath)) {
+    return {};
+  }
+
+  const lines = readFileSync(filePath, 'utf-8').trim().split(/\r?\n/);
+  const header = parseCSVLine(lines[0] ?? '').map((col) => col.toLowerCase().replace(/[^a-z0-9]/g, ''));
+  const tickerIndex = header.findIndex((col) => TICKER_HEADERS.includes(col));
+  const nameIndex = header.findIndex((col) => NAME_HEADERS.includes(col));
+
+  if (tickerIndex === -1 || nameIndex === -1) {
+    throw new Error(
+      `Invalid security master (${filePath}): expected "Ticker" and "Name" columns, found: ${header.join(', ') || '(empty)'}`
+    );
+  }
+
+  const names: Record<string, string> = {};
+  for (const line of lines.slice(1)) {
+    if (!line.trim()) continue;
+    const cells = parseCSVLine(line);
+    const ticker = cells[tickerIndex]?.trim().toUpperCase();
+    const name = cells[nameIndex]?.trim();
+    if (ticker && name) {
+      names[ticker] = name;
+    }
+  }
+  return names;
+}
+
+/**
+ * Fill in company names the earnings tab didn't have
+ *
+ * @param reports - Parsed reports (company is the ticker when the tab had no name)
+ * @param holdings - Positions from the holdings CSV
+ * @param securityMaster - Names from config/security-master.csv
+ * @returns Reports with company names resolved
+ */
+export function resolveCompanyNames(
+  reports: EarningsReport[],
+  holdings: Holding[],
+  securityMaster: Record<string, string>
+): EarningsReport[] {
+  const holdingNames: Record<string, string> = {};
+  for (const { ticker, securityName } of holdings) {
+    if (securityName && !holdingNames[ticker]) {
+      holdingNames[ticker] = securityName;
+    }
+  }
+
+  return reports.map((report) => {
+    const ticker = report.ticker.toUpperCase();
+    if (report.company && report.company.toUpperCase() !== ticker) {
+      return report;
+    }
+    const company = holdingNames[ticker] ?? securityMaster[ticker];
+    return company ? { ...report, company } : report;
+  });
+}
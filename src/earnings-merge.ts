@@ -0,0 +1,121 @@
+/**
+ * Earnings Source Merging for Earnings Alerts
+ *
+ * FactSet sometimes lags company press releases, so report dates can be
+ * layered in from more sources (see earnings-source.ts) and reconciled per
+ * ticker. A ticker's upcoming rows (dated today or later) come from one
+ * source:
+ * 1. A source with a confirmed upcoming date beats one whose upcoming date
+ *    is estimated (or unflagged)
+ * 2. Otherwise the source with the best priority (lowest number) wins
+ *
+ * Past rows (for the recap and report history) come from the best-priority
+ * source that has any, so a confirmed past quarter never hides another
+ * source's upcoming date. Each report records its source. Tickers whose
+ * sources give different upcoming dates are returned as conflicts so
+ * holdings can be flagged in the email.
+ */
+
+import { EarningsReport, SourceConflict } from './types';
+import { toDateKey } from './market-clock';
+
+/**
+ * Reports parsed from one earnings source
+ */
+export interface SourceReports {
+  source: string;            // Source name (EarningsSource.description)
+  priority: number;          // Lower wins among equally confirmed dates
+  reports: EarningsReport[];
+}
+
+/**
+ * Upcoming report date keys (on or after today), sorted
+ */
+function upcomingDateKeys(reports: EarningsReport[], todayKey: string): string[] {
+  return [...new Set(reports.map((r) => toDateKey(r.reportDate)).filter((key) => key >= todayKey))].sort();
+}
+
+/**
+ * Earliest report
+ */
+function earliest(reports: EarningsReport[]): EarningsReport {
+  return [...reports].sort((a, b) => a.reportDate.getTime() - b.reportDate.getTime())[0];
+}
+
+/**
+ * Merge reports from several sources into one report list
+ *
+ * @param inputs - Reports per source
+ * @param today - Market date (splits past from upcoming rows)
+ * @returns Merged reports (tagged with their source) and the tickers whose
+ *   sources disagree
+ */
+export function mergeEarningsReports(
+  inputs: SourceReports[],
+  today: Date
+): { reports: EarningsReport[]; conflicts: SourceConflict[] } {
+  const todayKey = toDateKey(today);
+  const byPriority = [...inputs].sort((a, b) => a.priority - b.priority);
+  const isUpcoming = (report: EarningsReport) => toDateKey(report.reportDate) >= todayKey;
+
+  // Rows per ticker per source, tickers in first-seen order
+  const tickers: string[] = [];
+  const rows = new Map<string, Map<SourceReports, EarningsReport[]>>();
+  for (const input of byPriority) {
+    for (const report of input.reports) {
+      const ticker = report.ticker.toUpperCase();
+      if (!rows.has(ticker)) {
+        tickers.push(ticker);
+        rows.set(ticker, new Map());
+      }
+      const perSource = rows.get(ticker)!;
+      perSource.set(input, [...(perSource.get(input) ?? []), report]);
+    }
+  }
+
+  const reports: EarningsReport[] = [];
+  const conflicts: SourceConflict[] = [];
+  const tag = (input: SourceReports, sourceReports: EarningsReport[]) =>
+    sourceReports.map((report) => ({ ...report, source: input.source }));
+
+  for (const ticker of tickers) {
+    const candidates = [...rows.get(ticker)!.entries()].map(([input, sourceReports]) => ({
+      input,
+      past: sourceReports.filter((r) => !isUpcoming(r)),
+      upcoming: sourceReports.filter(isUpcoming),
+    }));
+
+    // Past rows: best priority
+    const pastWinner = candidates.find((c) => c.past.length > 0);
+    if (pastWinner) {
+      reports.push(...tag(pastWinner.input, pastWinner.past));
+    }
+
+    // Upcoming rows: confirmed first, then best priority
+    const withUpcoming = candidates.filter((c) => c.upcoming.length > 0);
+    const winner = withUpcoming.find((c) => c.upcoming.some((r) => r.dateConfirmed === true)) ?? withUpcoming[0];
+    if (!winner) continue;
+
+    const merged = tag(winner.input, winner.upcoming);
+    reports.push(...merged);
+
+    // Other sources with a different upcoming date
+    const winningDates = upcomingDateKeys(winner.upcoming, todayKey).join();
+    const others = withUpcoming
+      .filter((c) => c !== winner && upcomingDateKeys(c.upcoming, todayKey).join() !== winningDates)
+      .map((c) => {
+        const next = earliest(c.upcoming);
+        return {
+          source: c.input.source,
+          reportDate: next.reportDate,
+          ...(next.dateConfirmed !== undefined ? { dateConfirmed: next.dateConfirmed } : {}),
+        };
+      });
+
+    if (others.length > 0) {
+      conflicts.push({ report: earliest(merged), others });
+    }
+  }
+
+  return { reports, conflicts };
+}
@@ -0,0 +1,214 @@
+/**
+ * Earnings Data Sources for Earnings Alerts
+ *
+ * The earnings rows and the watchlist can come from three sources that
+ * share one interface:
+ * - sheet: the Google Sheet (latest date tab + "Tickers for email")
+ * - csv: a local CSV file laid out like the sheet export (e.g. a FactSet
+ *   export on disk), plus an optional watchlist file with one ticker per line
+ * - json: a fixture {"earningsRows": [[...]], "watchlist": [...],
+ *   "leadTimeRows": [[...]]}; a saved snapshot works as a fixture
+ *
+ * Sources return raw rows; parsing (header mapping, validation) stays in
+ * sheets.ts so every source is read the same way.
+ *
+ * The source is chosen by "earningsSource" in config/settings.json, the
+ * EARNINGS_SOURCE env var, or --source / --source-path on the command line.
+ * "additionalEarningsSources" are read the same way and merged with it
+ * (see earnings-merge.ts).
+ */
+
+import { readFileSync, existsSync } from 'fs';
+import { join, isAbsolute, relative } from 'path';
+import { EarningsSourceSettings } from './types';
+import { readRawSheetData, readWatchlistRows, readLeadTimeRows } from './sheets';
+import { parseCSVLine } from './holdings-email';
+
+const ROOT_DIR = join(__dirname, '..');
+
+const EARNINGS_SOURCE_TYPES: EarningsSourceSettings['type'][] = ['sheet', 'csv', 'json'];
+
+/**
+ * Source-independent earnings data
+ */
+export interface EarningsSource {
+  readonly description: string;              // For logging, e.g. "CSV file (data/factset.csv)"
+  readEarningsRows(): Promise<string[][]>;   // Rows including the header (see parseEarningsRows)
+  readWatchlistRows(): Promise<string[][]>;  // Tickers in the first column; a "Ticker" header is skipped
+  readLeadTimeRows?(tab: string): Promise<string[][]>; // Ticker, Tag, Days, Sessions (sources with tabs only)
+}
+
+// ============================================================================
+// Sources
+// ============================================================================
+
+/**
+ * Resolve a configured path against the project root
+ */
+function resolvePath(path: string): string {
+  return isAbsolute(path) ? path : join(ROOT_DIR, path);
+}
+
+/**
+ * Path for log messages (relative inside the project)
+ */
+function displayPath(filePath: string): string {
+  const rel = relative(ROOT_DIR, filePath);
+  return rel.startsWith('..') || isAbsolute(rel) ? filePath : rel;
+}
+
+/**
+ * Read a file, failing with the path if it's missing
+ */
+function readSourceFile(filePath: string, label: string): string {
+  if (!existsSync(filePath)) {
+    throw new Error(`${label} not found: ${filePath}`);
+  }
+  return readFileSync(filePath, 'utf-8');
+}
+
+/**
+ * Split CSV text into rows (quoted fields may not contain line breaks)
+ */
+function parseCSVRows(text: string): string[][] {
+  const lines = text.replace(/^\uFEFF/, '').split(/\r?\n/);
+  while (lines.length > 0 && lines[lines.length - 1].trim() === '') {
+    lines.pop();
+  }
+  return lines.map(parseCSVLine);
+}
+
+/**
+ * The Google Sheet configured in settings (sheets.earnings)
+ */
+export function createSheetEarningsSource(): EarningsSource {
+  return {
+    description: 'Google Sheet',
+    readEarningsRows: readRawSheetData,
+    readWatchlistRows,
+    readLeadTimeRows,
+  };
+}
+
+/**
+ * A local CSV file with the same columns as the sheet export
+ *
+ * @param filePath - Earnings CSV
+ * @param watchlistPath - Watchlist file, one ticker per line (default: no watchlist)
+ */
+export function createCsvEarningsSource(filePath: string, watchlistPath?: string): EarningsSource {
+  return {
+    description: `CSV file (${displayPath(filePath)})`,
+
+    async readEarningsRows() {
+      return parseCSVRows(readSourceFile(filePath, 'Earnings CSV'));
+    },
+
+    async readWatchlistRows() {
+      return watchlistPath ? parseCSVRows(readSourceFile(watchlistPath, 'Watchlist file')) : [];
+    },
+  };
+}
+
+/**
+ * A JSON fixture (or a saved snapshot)
+ *
+ * @param filePath - Fixture file
+ */
+export function createJsonEarningsSource(filePath: string): EarningsSource {
+  let fixture: { earningsRows: string[][]; watchlist: string[]; leadTimeRows?: string[][] } | null = null;
+
+  const load = () => {
+    if (fixture) return fixture;
+
+    const text = readSourceFile(filePath, 'Earnings fixture');
+    let raw: any;
+    try {
+      raw = JSON.parse(text);
+    } catch (error: any) {
+      throw new Error(`Invalid JSON in earnings fixture ${filePath}: ${error.message}`);
+    }
+
+    const isRows = (value: unknown) => Array.isArray(value) && value.every((row) => Array.isArray(row));
+    const errors: string[] = [];
+    if (!raw || typeof raw !== 'object' || !isRows(raw.earningsRows)) {
+      errors.push('earningsRows: must be an array of rows (arrays of cell values), header first');
+    }
+    if (raw?.watchlist !== undefined && !(Array.isArray(raw.watchlist) && raw.watchlist.every((t: unknown) => typeof t === 'string'))) {
+      errors.push('watchlist: must be an array of tickers');
+    }
+    if (raw?.leadTimeRows !== undefined && !isRows(raw.leadTimeRows)) {
+      errors.push('leadTimeRows: must be an array of rows');
+    }
+    if (errors.length > 0) {
+      throw new Error(`Invalid earnings fixture ${filePath}:\n  ${errors.join('\n  ')}`);
+    }
+
+    const toStrings = (rows: unknown[][]) => rows.map((row) => row.map((value) => String(value ?? '')));
+    fixture = {
+      earningsRows: toStrings(raw.earningsRows),
+      watchlist: raw.watchlist ?? [],
+      ...(raw.leadTimeRows ? { leadTimeRows: toStrings(raw.leadTimeRows) } : {}),
+    };
+    return fixture;
+  };
+
+  return {
+    description: `JSON fixture (${displayPath(filePath)})`,
+
+    async readEarningsRows() {
+      return load().earningsRows;
+    },
+
+    async readWatchlistRows() {
+      return load().watchlist.map((ticker) => [ticker]);
+    },
+
+    async readLeadTimeRows() {
+      return load().leadTimeRows ?? [];
+    },
+  };
+}
+
+/**
+ * Create the source configured in settings, with command-line overrides
+ *
+ * A configured "name" replaces the description.
+ *
+ * @param config - settings.earningsSource (or one of additionalEarningsSources)
+ * @param override - --source / --source-path
+ * @throws Error if the type is unknown or a file source has no path
+ */
+export function getEarningsSource(
+  config: EarningsSourceSettings,
+  override: { type?: string; path?: string } = {}
+): EarningsSource {
+  const type = (override.type ?? config.type) as EarningsSourceSettings['type'];
+  if (!EARNINGS_SOURCE_TYPES.includes(type)) {
+    throw new Error(`Unknown earnings source "${type}" (expected ${EARNINGS_SOURCE_TYPES.join(', ')})`);
+  }
+
+  // A path from settings only applies to the source type it was configured for
+  const path = override.path ?? (type === config.type ? config.path : undefined);
+  if (type !== 'sheet' && !path) {
+    throw new Error(`The ${type} earnings source needs a file: set earningsSource.path in config/settings.json or pass --source-path`);
+  }
+
+  let source: EarningsSource;
+  switch (type) {
+    case 'csv':
+      source = createCsvEarningsSource(
+        resolvePath(path!),
+        config.watchlistPath ? resolvePath(config.watchlistPath) : undefined
+      );
+      break;
+    case 'json':
+      source = createJsonEarningsSource(resolvePath(path!));
+      break;
+    case 'sheet':
+    default:
+      source = createSheetEarningsSource();
+  }
+
+  return config.name && type === config.type ? { ...source, description: config.name } : source;
+}
@@ -6,13 +6,39 @@
  * - HTML email template with earnings table (Feature 16)
  * - Recipient config loading (Feature 17)
  * - Two-section email: Holdings (priority) + Watchlist (Feature 26)
+ * - Sections rendered from config/settings.json definitions
+ * - "Date / time changed" section for reports moved since the last run
+ * - "Time now confirmed" section for holdings whose unknown time was confirmed
+ * - "Reported since last email" recap, below the upcoming sections
+ * - Footer count of muted tickers (see mutes.ts)
+ * - Warning rows for holdings whose earnings sources disagree
+ *   (see earnings-merge.ts)
+ * - Holdings labelled and sorted by portfolio weight, and the share of the
+ *   portfolio reporting this week in the header, when weights are known
+ * - Accounts column on holdings tables; account-scoped recipients get their
+ *   own email with only their accounts' holdings
  */
 
 import { readFileSync, existsSync } from 'fs';
 import { join } from 'path';
-import { format } from 'date-fns';
 import { getGmailService } from './google-auth';
-import { AlertDue, TimeOfDay } from './types';
+import {
+  AlertDue,
+  AlertSection,
+  AlertEmailExtras,
+  EmailResult,
+  MutedAlert,
+  PortfolioWeekSummary,
+  RecipientGroup,
+  ReportChange,
+  SourceConflict,
+  TimeConfirmation,
+  TimeOfDay,
+} from './types';
+import { getTradingSession, TradingSession } from './calendar';
+import { marketToday, parseDateKey, formatCalendarDate, toDateKey } from './market-clock';
+import { getSettings } from './settings';
+import { isInAccountScope, scopeToAccounts } from './sections';
 
 // Config path
 const CONFIG_DIR = join(__dirname, '..', 'config');
@@ -23,18 +49,21 @@ const RECIPIENTS_FILE = join(CONFIG_DIR, 'recipients.json');
 // ============================================================================
 
 interface RecipientsConfig {
-  recipients: string[];
+  recipients: (string | { email: string; accounts: string[] })[];
   enabled?: boolean;
   notes?: string;
 }
 
 /**
- * Load email recipients from config file
+ * Load email recipients from config file, grouped by account scope
  *
- * @returns Array of email addresses
+ * Entries are addresses, or {"email": ..., "accounts": [...]} for
+ * recipients who only get holdings held in those accounts / funds.
+ *
+ * @returns Unscoped recipients first, then one group per account set
  * @throws Error if config file is missing or invalid
  */
-export function getRecipients(): string[] {
+export function getRecipientGroups(): RecipientGroup[] {
   let content: string;
 
   // Prefer env var (used in CI where recipients are a secret)
@@ -62,20 +91,38 @@ export function getRecipients(): string[] {
       return [];
     }
 
-    // Validate email addresses
-    const validEmails = config.recipients.filter((email) => {
+    // Validate email addresses and group them by account scope ('' = all accounts)
+    const groups = new Map<string, RecipientGroup>();
+    for (const entry of config.recipients) {
+      const email = typeof entry === 'string' ? entry : entry?.email;
+      const accounts = typeof entry === 'string' ? undefined : entry?.accounts;
+
       if (typeof email !== 'string' || !email.includes('@')) {
-        console.warn(`[WARN] Invalid email address skipped: ${email}`);
-        return false;
+        console.warn(`[WARN] Invalid email address skipped: ${JSON.stringify(entry)}`);
+        continue;
+      }
+      const validAccounts =
+        accounts === undefined ||
+        (Array.isArray(accounts) && accounts.length > 0 && accounts.every((a) => typeof a === 'string' && a.trim()));
+      if (!validAccounts) {
+        console.warn(`[WARN] Recipient ${email} skipped: "accounts" must be a non-empty array of account names`);
+        continue;
       }
-      return true;
-    });
 
-    if (validEmails.length === 0) {
+      const scope = accounts ? [...new Set(accounts.map((a) => a.trim()))].sort() : undefined;
+      const key = scope ? scope.join('\n') : '';
+      const group = groups.get(key) ?? { recipients: [], ...(scope ? { accounts: scope } : {}) };
+      group.recipients.push(email);
+      groups.set(key, group);
+    }
+
+    if (groups.size === 0) {
       console.warn('[WARN] No valid recipients configured');
     }
 
-    return validEmails;
+    return [...groups.entries()]
+      .sort(([a], [b]) => (a === '' ? -1 : b === '' ? 1 : a.localeCompare(b)))
+      .map(([, group]) => group);
   } catch (error) {
     if (error instanceof SyntaxError) {
       throw new Error(`Invalid JSON in recipients config: ${error.message}`);
@@ -84,28 +131,106 @@ export function getRecipients(): string[] {
   }
 }
 
+/**
+ * Load every email recipient, whatever their account scope
+ *
+ * @returns Array of email addresses
+ * @throws Error if config file is missing or invalid
+ */
+export function getRecipients(): string[] {
+  return [...new Set(getRecipientGroups().flatMap((group) => group.recipients))];
+}
+
 // ============================================================================
 // Email Template (Feature 16)
 // ============================================================================
 
+/**
+ * Format a session time ("HH:mm", 24-hour) for display, e.g. "1:00 PM"
+ */
+function formatSessionTime(time: string): string {
+  const [hours, minutes] = time.split(':').map(Number);
+  const period = hours >= 12 ? 'PM' : 'AM';
+  const displayHours = hours % 12 === 0 ? 12 : hours % 12;
+  return `${displayHours}:${String(minutes).padStart(2, '0')} ${period}`;
+}
+
 /**
  * Format time of day for display
+ *
+ * Intraday reports show their time, e.g. "During market (12:00 PM)".
+ * Post-market reports on early-close days show the actual close time.
  */
-function formatTimeOfDay(timeOfDay: TimeOfDay): string {
+function formatTimeOfDay(
+  timeOfDay: TimeOfDay,
+  session?: TradingSession | null,
+  reportTime?: string
+): string {
   switch (timeOfDay) {
     case 'premarket':
       return 'Pre-market';
+    case 'intraday':
+      return reportTime ? `During market (${formatSessionTime(reportTime)})` : 'During market';
     case 'postmarket':
-      return 'Post-market';
+      return session?.earlyClose
+        ? `Post-market (after ${formatSessionTime(session.close)} close)`
+        : 'Post-market';
     default:
-      return 'TBD';
+      // Outside the configured ranges (e.g. an overnight release)
+      return reportTime ? formatSessionTime(reportTime) : 'TBD';
   }
 }
 
+/**
+ * Generate the footer note on market hours
+ *
+ * Shows the pre/post-market ranges from settings, and uses the real session
+ * times for the report dates in the email, so early-close days (e.g. day
+ * after Thanksgiving) are called out.
+ */
+function generateSessionNote(alerts: AlertDue[]): string {
+  const earlyCloses = new Map<string, TradingSession>();
+  for (const alert of alerts) {
+    const session = getTradingSession(alert.report.reportDate, alert.report.exchange);
+    if (session?.earlyClose) {
+      earlyCloses.set(`${session.exchange}:${session.date}`, session);
+    }
+  }
+
+  const { preMarketRange, postMarketRange } = getSettings();
+  const lines = [
+    `<strong>Note:</strong> Pre-market reports: ${formatSessionTime(preMarketRange.start)} - ${formatSessionTime(preMarketRange.end)} ET. ` +
+      `Post-market: ${formatSessionTime(postMarketRange.start)} - ${formatSessionTime(postMarketRange.end)} ET.`,
+  ];
+
+  const sortedSessions = [...earlyCloses.values()].sort((a, b) => a.date.localeCompare(b.date));
+  for (const session of sortedSessions) {
+    const dateDisplay = formatCalendarDate(parseDateKey(session.date)!, 'EEE, MMM d');
+    const close = formatSessionTime(session.close);
+    const market = session.exchange === 'NYSE' ? 'market' : session.exchange;
+    lines.push(
+      `<strong>Early close ${dateDisplay}</strong> (${escapeHtml(session.reason || 'half day')}): ` +
+        `${market} closes at ${close} ${session.timezoneLabel}, so post-market reports that day follow the ${close} close.`
+    );
+  }
+
+  return lines.join('<br>\n      ');
+}
+
+/**
+ * Format a holding's portfolio weight under its ticker
+ */
+function formatWeight(weight: number | undefined): string {
+  if (weight === undefined) {
+    return '';
+  }
+  return `<br><span style="font-size: 12px; font-weight: normal; color: #666;">${weight.toFixed(1)}%</span>`;
+}
+
 /**
  * Generate HTML table rows for alerts
  */
-function generateTableRows(alerts: AlertDue[], accentColor = '#1976d2'): string {
+function generateTableRows(alerts: AlertDue[], accentColor = '#1976d2', showAccounts = false): string {
   return alerts
     .map((alert) => {
       const { report, daysUntilReport } = alert;
@@ -114,17 +239,24 @@ function generateTableRows(alerts: AlertDue[], accentColor = '#1976d2'): string
       return `
         <tr class="${urgencyClass}">
           <td style="padding: 12px; border-bottom: 1px solid #e0e0e0; font-weight: bold; color: ${accentColor};">
-            ${escapeHtml(report.ticker)}
+            ${escapeHtml(report.ticker)}${formatWeight(alert.weight)}
           </td>
           <td style="padding: 12px; border-bottom: 1px solid #e0e0e0;">
             ${escapeHtml(report.company)}
           </td>
           <td style="padding: 12px; border-bottom: 1px solid #e0e0e0;">
-            ${format(report.reportDate, 'EEE, MMM d')}
+            ${formatCalendarDate(report.reportDate, 'EEE, MMM d')}
           </td>
           <td style="padding: 12px; border-bottom: 1px solid #e0e0e0;">
-            ${formatTimeOfDay(report.timeOfDay)}
-          </td>
+            ${formatTimeOfDay(report.timeOfDay, getTradingSession(report.reportDate, report.exchange), report.reportTime)}
+          </td>${
+            showAccounts
+              ? `
+          <td style="padding: 12px; border-bottom: 1px solid #e0e0e0; font-size: 13px;">
+            ${escapeHtml((alert.accounts ?? []).join(', '))}
+          </td>`
+              : ''
+          }
         </tr>`;
     })
     .join('\n');
@@ -142,47 +274,6 @@ function escapeHtml(text: string): string {
     .replace(/'/g, '&#039;');
 }
 
-/**
- * Generate subject line based on holdings and watchlist counts
- */
-function generateSubjectLine(
-  holdingsCount: number,
-  watchlistCount: number,
-  allAlerts: AlertDue[]
-): string {
-  // Find the earliest report date for context
-  const sortedAlerts = [...allAlerts].sort(
-    (a, b) => a.report.reportDate.getTime() - b.report.reportDate.getTime()
-  );
-
-  if (sortedAlerts.length === 0) {
-    return 'Earnings Alert: No companies reporting soon';
-  }
-
-  const nextReport = sortedAlerts[0];
-  const daysText =
-    nextReport.daysUntilReport === 0
-      ? 'today'
-      : nextReport.daysUntilReport === 1
-        ? 'tomorrow'
-        : `in ${nextReport.daysUntilReport} days`;
-
-  // Generate subject based on what we have
-  if (holdingsCount > 0 && watchlistCount > 0) {
-    const holdingsText = holdingsCount === 1 ? 'holding' : 'holdings';
-    const watchlistText = watchlistCount === 1 ? 'watchlist ticker' : 'watchlist tickers';
-    return `Earnings Alert: ${holdingsCount} ${holdingsText} + ${watchlistCount} ${watchlistText} reporting ${daysText}`;
-  } else if (holdingsCount > 0) {
-    const holdingsText = holdingsCount === 1 ? 'holding' : 'holdings';
-    return `Earnings Alert: ${holdingsCount} ${holdingsText} reporting ${daysText}`;
-  } else if (watchlistCount > 0) {
-    const watchlistText = watchlistCount === 1 ? 'watchlist ticker' : 'watchlist tickers';
-    return `Earnings Alert: ${watchlistCount} ${watchlistText} reporting ${daysText}`;
-  }
-
-  return 'Earnings Alert: No companies reporting soon';
-}
-
 /**
  * Generate a section with header and table for alerts
  */
@@ -196,11 +287,15 @@ function generateSection(
     return '';
   }
 
+  // Largest positions first when weights are known, then by report date
   const sortedAlerts = [...alerts].sort(
-    (a, b) => a.report.reportDate.getTime() - b.report.reportDate.getTime()
+    (a, b) =>
+      (b.weight ?? -1) - (a.weight ?? -1) || a.report.reportDate.getTime() - b.report.reportDate.getTime()
   );
 
-  const tableRows = generateTableRows(sortedAlerts, accentColor);
+  // Holdings tables show which accounts / funds hold each name
+  const showAccounts = alerts.some((alert) => alert.accounts);
+  const tableRows = generateTableRows(sortedAlerts, accentColor, showAccounts);
 
   return `
     <div style="margin-bottom: 24px;">
@@ -213,7 +308,12 @@ function generateSection(
             <th style="padding: 12px; text-align: left; border-bottom: 2px solid ${accentColor}; font-weight: 600;">Ticker</th>
             <th style="padding: 12px; text-align: left; border-bottom: 2px solid ${accentColor}; font-weight: 600;">Company</th>
             <th style="padding: 12px; text-align: left; border-bottom: 2px solid ${accentColor}; font-weight: 600;">Report Date</th>
-            <th style="padding: 12px; text-align: left; border-bottom: 2px solid ${accentColor}; font-weight: 600;">Time</th>
+            <th style="padding: 12px; text-align: left; border-bottom: 2px solid ${accentColor}; font-weight: 600;">Time</th>${
+              showAccounts
+                ? `
+            <th style="padding: 12px; text-align: left; border-bottom: 2px solid ${accentColor}; font-weight: 600;">Accounts</th>`
+                : ''
+            }
           </tr>
         </thead>
         <tbody>
@@ -224,107 +324,345 @@ function generateSection(
   `;
 }
 
+// Built-in "Date / time changed" section
+const CHANGES_TITLE = '🔄 DATE / TIME CHANGED';
+const CHANGES_COLOR = '#6a1b9a';
+const CHANGES_COLOR_END = '#4a148c';
+const CHANGES_SUBJECT = '{n} date/time change{s}';
+
+// Built-in "Time now confirmed" section
+const CONFIRMED_TITLE = '✅ HOLDINGS - TIME NOW CONFIRMED';
+const CONFIRMED_COLOR = '#2e7d32';
+const CONFIRMED_COLOR_END = '#1b5e20';
+const CONFIRMED_SUBJECT = '{n} time{s} confirmed';
+
+// Built-in "Sources disagree" warning section
+const CONFLICTS_TITLE = '⚠️ HOLDINGS - SOURCES DISAGREE';
+const CONFLICTS_COLOR = '#ef6c00';
+const CONFLICTS_COLOR_END = '#e65100';
+
+// Built-in "Reported since last email" recap section
+const RECAP_TITLE = '📋 REPORTED SINCE LAST EMAIL';
+const RECAP_COLOR = '#546e7a';
+const RECAP_COLOR_END = '#37474f';
+const RECAP_SUBJECT = '{n} reported';
+
 /**
- * Alert sections for the 5-section email
+ * Wrap table rows in a section with a coloured header (built-in sections)
  */
-export interface AlertSections {
-  holdingsPremarket: AlertDue[];       // Holdings reporting pre-market today
-  holdingsBeforeNextOpen: AlertDue[];  // Holdings: post-market today + pre-market tomorrow
-  holdingsUpcoming: AlertDue[];        // Holdings: post-market tomorrow through pre-market 5 days out
-  watchlistPremarket: AlertDue[];      // Watchlist reporting pre-market today
-  watchlistUpcoming: AlertDue[];       // Watchlist: post-market today through pre-market 2 days out
+function generateTableSection(
+  title: string,
+  color: string,
+  colorEnd: string,
+  headers: string[],
+  rows: string
+): string {
+  const headerCells = headers
+    .map((h) => `<th style="padding: 12px; text-align: left; border-bottom: 2px solid ${color}; font-weight: 600;">${h}</th>`)
+    .join('\n            ');
+
+  return `
+    <div style="margin-bottom: 24px;">
+      <div style="background: linear-gradient(135deg, ${color} 0%, ${colorEnd} 100%); color: white; padding: 12px 16px; border-radius: 4px 4px 0 0;">
+        <h2 style="margin: 0; font-size: 16px; font-weight: 600; letter-spacing: 0.5px;">${title}</h2>
+      </div>
+      <table style="width: 100%; border-collapse: collapse; background: white; border-radius: 0 0 4px 4px; overflow: hidden; box-shadow: 0 1px 3px rgba(0,0,0,0.1);">
+        <thead>
+          <tr style="background: #f5f5f5;">
+            ${headerCells}
+          </tr>
+        </thead>
+        <tbody>
+          ${rows}
+        </tbody>
+      </table>
+    </div>
+  `;
 }
 
 /**
- * Format alert data into HTML email with five sections
- *
- * @param sections - Object containing 5 arrays of alerts
- * @returns Object with subject and html body
+ * Format a report date and time for the changes table, with the raw sheet
+ * string when it adds something (e.g. "Thu, Oct 23 · Post-market ("4:30 PM ET")")
  */
-export function formatAlertEmail(
-  sections: AlertSections
-): { subject: string; html: string } {
-  const {
-    holdingsPremarket,
-    holdingsBeforeNextOpen,
-    holdingsUpcoming,
-    watchlistPremarket,
-    watchlistUpcoming,
-  } = sections;
-
-  const totalCount =
-    holdingsPremarket.length +
-    holdingsBeforeNextOpen.length +
-    holdingsUpcoming.length +
-    watchlistPremarket.length +
-    watchlistUpcoming.length;
-
-  if (totalCount === 0) {
-    return {
-      subject: 'Earnings Alert: No companies reporting soon',
-      html: '<p>No earnings reports are scheduled for alerts.</p>',
-    };
+function formatReportWhen(
+  reportDate: Date,
+  timeOfDay: TimeOfDay,
+  reportTime: string | undefined,
+  rawTimeString: string | undefined,
+  highlight: { date: boolean; time: boolean }
+): string {
+  const date = formatCalendarDate(reportDate, 'EEE, MMM d');
+  const time = formatTimeOfDay(timeOfDay, null, reportTime);
+  const raw = rawTimeString ? ` <span style="color: #999;">("${escapeHtml(rawTimeString)}")</span>` : '';
+  const mark = (text: string, changed: boolean) => (changed ? `<strong>${text}</strong>` : text);
+  return `${mark(date, highlight.date)} · ${mark(time, highlight.time)}${raw}`;
+}
+
+/**
+ * Generate the "Date / time changed" section (holdings and watchlist)
+ */
+function generateChangesSection(changes: ReportChange[]): string {
+  if (changes.length === 0) {
+    return '';
   }
 
-  // Generate subject line
-  let subject = 'Earnings Alert: ';
-  const parts: string[] = [];
+  const cell = 'padding: 12px; border-bottom: 1px solid #e0e0e0;';
+
+  const rows = changes
+    .map((change) => {
+      const { report, previous } = change;
+      const highlight = { date: change.dateChanged, time: change.timeChanged };
+      const was = formatReportWhen(
+        parseDateKey(previous.reportDate)!,
+        previous.timeOfDay,
+        previous.reportTime,
+        previous.rawTimeString,
+        highlight
+      );
+      const nowText = formatReportWhen(report.reportDate, report.timeOfDay, report.reportTime, report.rawTimeString, highlight);
+      const audience = change.audience === 'holdings' ? 'Holding' : 'Watchlist';
 
-  const holdingsUrgent = holdingsPremarket.length + holdingsBeforeNextOpen.length;
-  if (holdingsUrgent > 0) {
-    parts.push(`${holdingsUrgent} holding${holdingsUrgent > 1 ? 's' : ''} imminent`);
+      return `
+        <tr>
+          <td style="${cell} font-weight: bold; color: ${CHANGES_COLOR};">
+            ${escapeHtml(report.ticker)}<br><span style="font-size: 11px; font-weight: normal; color: #999;">${audience}</span>
+          </td>
+          <td style="${cell}">${escapeHtml(report.company)}</td>
+          <td style="${cell} color: #999; text-decoration: line-through;">${was}</td>
+          <td style="${cell}">${nowText}</td>
+        </tr>`;
+    })
+    .join('\n');
+
+  return generateTableSection(CHANGES_TITLE, CHANGES_COLOR, CHANGES_COLOR_END, ['Ticker', 'Company', 'Was', 'Now'], rows);
+}
+
+/**
+ * Format a source's date for the conflicts table ("Tue, Nov 25 · confirmed")
+ */
+function formatSourceDate(reportDate: Date, dateConfirmed: boolean | undefined): string {
+  const status = dateConfirmed === true ? 'confirmed' : dateConfirmed === false ? 'estimated' : '';
+  return `${formatCalendarDate(reportDate, 'EEE, MMM d')}${status ? ` · ${status}` : ''}`;
+}
+
+/**
+ * Generate the warning rows for holdings whose earnings sources give
+ * different dates, with the date used and what the other sources say
+ */
+function generateConflictsSection(conflicts: SourceConflict[]): string {
+  if (conflicts.length === 0) {
+    return '';
   }
-  if (holdingsUpcoming.length > 0) {
-    parts.push(`${holdingsUpcoming.length} holding${holdingsUpcoming.length > 1 ? 's' : ''} upcoming`);
+
+  const cell = 'padding: 12px; border-bottom: 1px solid #e0e0e0;';
+  const note = 'font-size: 11px; color: #999;';
+
+  const rows = conflicts
+    .map(({ report, others }) => {
+      const used = `${formatSourceDate(report.reportDate, report.dateConfirmed)}<br><span style="${note}">${escapeHtml(report.source ?? '')}</span>`;
+      const also = others
+        .map((o) => `${formatSourceDate(o.reportDate, o.dateConfirmed)}<br><span style="${note}">${escapeHtml(o.source)}</span>`)
+        .join('<br>');
+
+      return `
+        <tr style="background: #fff3e0;">
+          <td style="${cell} font-weight: bold; color: ${CONFLICTS_COLOR};">⚠️ ${escapeHtml(report.ticker)}</td>
+          <td style="${cell}">${escapeHtml(report.company)}</td>
+          <td style="${cell}">${used}</td>
+          <td style="${cell} color: #666;">${also}</td>
+        </tr>`;
+    })
+    .join('\n');
+
+  return generateTableSection(CONFLICTS_TITLE, CONFLICTS_COLOR, CONFLICTS_COLOR_END, ['Ticker', 'Company', 'Using', 'Other sources'], rows);
+}
+
+/**
+ * Generate the "Time now confirmed" section
+ *
+ * Shows the confirmed time and when the urgent alert fires now. Unknown
+ * times were alerted a day early, so the alert may have moved or already
+ * have gone out.
+ */
+function generateConfirmationsSection(confirmations: TimeConfirmation[]): string {
+  if (confirmations.length === 0) {
+    return '';
   }
-  const watchlistUrgent = watchlistPremarket.length;
-  if (watchlistUrgent > 0) {
-    parts.push(`${watchlistUrgent} watchlist pre-mkt`);
+
+  const cell = 'padding: 12px; border-bottom: 1px solid #e0e0e0;';
+  const todayKey = toDateKey(marketToday());
+  const formatDay = (date: Date) => (toDateKey(date) === todayKey ? 'Today' : formatCalendarDate(date, 'EEE, MMM d'));
+
+  const rows = confirmations
+    .map(({ change, previousAlertDate, alertDate }) => {
+      const { report, previous } = change;
+      const when = formatReportWhen(report.reportDate, report.timeOfDay, report.reportTime, report.rawTimeString, {
+        date: false,
+        time: true,
+      });
+      const movedFrom = change.dateChanged
+        ? `<span style="color: #999; text-decoration: line-through;">${formatCalendarDate(parseDateKey(previous.reportDate)!, 'EEE, MMM d')}</span> `
+        : '';
+
+      let alert: string;
+      if (toDateKey(previousAlertDate) === toDateKey(alertDate)) {
+        alert = `${formatDay(alertDate)} (unchanged)`;
+      } else {
+        alert = `<span style="color: #999; text-decoration: line-through;">${formatDay(previousAlertDate)}</span> → <strong>${formatDay(alertDate)}</strong>`;
+        if (toDateKey(previousAlertDate) < todayKey) {
+          alert += '<br><span style="font-size: 11px; color: #999;">Early alert already sent</span>';
+        }
+      }
+
+      return `
+        <tr>
+          <td style="${cell} font-weight: bold; color: ${CONFIRMED_COLOR};">${escapeHtml(report.ticker)}</td>
+          <td style="${cell}">${escapeHtml(report.company)}</td>
+          <td style="${cell}">${movedFrom}${when}</td>
+          <td style="${cell}">${alert}</td>
+        </tr>`;
+    })
+    .join('\n');
+
+  return generateTableSection(
+    CONFIRMED_TITLE,
+    CONFIRMED_COLOR,
+    CONFIRMED_COLOR_END,
+    ['Ticker', 'Company', 'Report', 'Urgent alert'],
+    rows
+  );
+}
+
+/**
+ * Generate the "Reported since last email" recap, set apart from the
+ * upcoming sections as a checklist of results to review
+ */
+function generateRecapSection(recap: AlertDue[]): string {
+  if (recap.length === 0) {
+    return '';
   }
-  if (watchlistUpcoming.length > 0) {
-    parts.push(`${watchlistUpcoming.length} watchlist upcoming`);
+
+  const cell = 'padding: 12px; border-bottom: 1px solid #e0e0e0;';
+  const rows = recap
+    .map(({ report }) => {
+      const session = getTradingSession(report.reportDate, report.exchange);
+      return `
+        <tr>
+          <td style="${cell} font-weight: bold; color: ${RECAP_COLOR};">${escapeHtml(report.ticker)}</td>
+          <td style="${cell}">${escapeHtml(report.company)}</td>
+          <td style="${cell}">${formatCalendarDate(report.reportDate, 'EEE, MMM d')} · ${formatTimeOfDay(report.timeOfDay, session, report.reportTime)}</td>
+        </tr>`;
+    })
+    .join('\n');
+
+  return `
+    <div style="margin: 32px 0 16px 0; border-top: 2px dashed #ccc; padding-top: 8px; font-size: 12px; color: #999; text-transform: uppercase; letter-spacing: 1px;">
+      Looking back
+    </div>
+    ${generateTableSection(RECAP_TITLE, RECAP_COLOR, RECAP_COLOR_END, ['Ticker', 'Company', 'Reported'], rows)}
+  `;
+}
+
+/**
+ * Generate the header line with the share of the portfolio reporting this week
+ */
+function generateWeekNote(week: PortfolioWeekSummary | undefined): string {
+  if (!week) {
+    return '';
   }
 
-  subject += parts.join(', ');
+  const holdings = week.holdings === 1 ? 'holding' : 'holdings';
+  return `<p style="margin: 4px 0 0 0; opacity: 0.9; font-size: 14px;">${week.weight.toFixed(1)}% of the portfolio reports this week (${week.holdings} ${holdings})</p>`;
+}
 
-  // Generate HTML body
-  const today = format(new Date(), 'EEEE, MMMM d, yyyy');
-
-  // Generate sections with different colors
-  const holdingsPremarketSection = generateSection(
-    '🚨 HOLDINGS - PRE-MARKET',
-    holdingsPremarket,
-    '#d32f2f', // Red - most urgent
-    'linear-gradient(135deg, #d32f2f 0%, #b71c1c 100%)'
-  );
+/**
+ * Generate the footer line counting muted tickers, so muted names don't
+ * disappear silently
+ */
+function generateMutedNote(muted: MutedAlert[]): string {
+  const tickers = [...new Set(muted.map((m) => m.alert.report.ticker))].sort();
+  if (tickers.length === 0) {
+    return '';
+  }
 
-  const holdingsBeforeNextOpenSection = generateSection(
-    '🔔 HOLDINGS - BEFORE NEXT OPEN',
-    holdingsBeforeNextOpen,
-    '#c41e3a', // Dark red
-    'linear-gradient(135deg, #c41e3a 0%, #8b0000 100%)'
-  );
+  const names = tickers.length === 1 ? 'ticker' : 'tickers';
+  return `<br>\n      <strong>Muted:</strong> ${tickers.length} ${names} not shown (${escapeHtml(tickers.join(', '))}). See config/mutes.json.`;
+}
 
-  const holdingsUpcomingSection = generateSection(
-    '📅 HOLDINGS - 2-5 DAYS OUT',
-    holdingsUpcoming,
-    '#d4a017', // Gold
-    'linear-gradient(135deg, #d4a017 0%, #b8860b 100%)'
-  );
+/**
+ * Build the subject line from the sections' subject fragments
+ *
+ * Sections sharing a fragment (e.g. "{n} holding{s} imminent") are summed.
+ * Confirmed times, date/time changes and the recap are listed last.
+ */
+function generateSectionSubject(sections: AlertSection[], extras: AlertEmailExtras): string {
+  const counts = new Map<string, number>();
+  for (const { definition, alerts } of sections) {
+    if (alerts.length > 0) {
+      counts.set(definition.subject, (counts.get(definition.subject) ?? 0) + alerts.length);
+    }
+  }
+  if (extras.confirmations?.length) {
+    counts.set(CONFIRMED_SUBJECT, extras.confirmations.length);
+  }
+  if (extras.changes?.length) {
+    counts.set(CHANGES_SUBJECT, extras.changes.length);
+  }
+  if (extras.recap?.length) {
+    counts.set(RECAP_SUBJECT, extras.recap.length);
+  }
 
-  const watchlistPremarketSection = generateSection(
-    '🚨 WATCHLIST - PRE-MARKET',
-    watchlistPremarket,
-    '#1976d2', // Blue
-    'linear-gradient(135deg, #1976d2 0%, #1565c0 100%)'
+  const parts = [...counts.entries()].map(([fragment, count]) =>
+    fragment.replace(/\{n\}/g, String(count)).replace(/\{s\}/g, count > 1 ? 's' : '')
   );
+  return `Earnings Alert: ${parts.join(', ')}`;
+}
 
-  const watchlistUpcomingSection = generateSection(
-    '📅 WATCHLIST - NEXT 2 DAYS',
-    watchlistUpcoming,
-    '#5c6bc0', // Indigo
-    'linear-gradient(135deg, #5c6bc0 0%, #3f51b5 100%)'
-  );
+/**
+ * Format alert data into HTML email with the configured sections
+ *
+ * @param sections - Built sections, in display order (see sections.ts)
+ * @param extras - Confirmed times, date/time changes and source
+ *   disagreements (shown above the sections) and the recap (below them)
+ * @returns Object with subject and html body
+ */
+export function formatAlertEmail(
+  sections: AlertSection[],
+  extras: AlertEmailExtras = {}
+): { subject: string; html: string } {
+  const allAlerts = sections.flatMap((section) => section.alerts);
+  const changes = extras.changes ?? [];
+  const confirmations = extras.confirmations ?? [];
+  const recap = extras.recap ?? [];
+
+  if (allAlerts.length === 0 && changes.length === 0 && confirmations.length === 0 && recap.length === 0) {
+    return {
+      subject: 'Earnings Alert: No companies reporting soon',
+      html: '<p>No earnings reports are scheduled for alerts.</p>',
+    };
+  }
+
+  // Generate subject line
+  const subject = generateSectionSubject(sections, extras);
+
+  // Generate HTML body
+  const today = formatCalendarDate(marketToday(), 'EEEE, MMMM d, yyyy');
+
+  // Generate sections with their configured colors
+  const sectionsHtml = sections
+    .map(({ definition, alerts }) =>
+      generateSection(
+        escapeHtml(definition.title),
+        alerts,
+        definition.color,
+        `linear-gradient(135deg, ${definition.color} 0%, ${definition.colorEnd ?? definition.color} 100%)`
+      )
+    )
+    .join('\n');
+  const extrasHtml =
+    generateConfirmationsSection(confirmations) +
+    generateChangesSection(changes) +
+    generateConflictsSection(extras.conflicts ?? []);
 
   const html = `
 <!DOCTYPE html>
@@ -339,17 +677,16 @@ export function formatAlertEmail(
   <div style="background: linear-gradient(135deg, #2c3e50 0%, #1a252f 100%); color: white; padding: 20px; border-radius: 8px 8px 0 0; text-align: center;">
     <h1 style="margin: 0; font-size: 24px; font-weight: 600;">📊 Earnings Alert</h1>
     <p style="margin: 8px 0 0 0; opacity: 0.9; font-size: 14px;">${today}</p>
+    ${generateWeekNote(extras.week)}
   </div>
 
   <div style="background: #f8f9fa; padding: 20px; border: 1px solid #e0e0e0; border-top: none;">
-    ${holdingsPremarketSection}
-    ${holdingsBeforeNextOpenSection}
-    ${holdingsUpcomingSection}
-    ${watchlistPremarketSection}
-    ${watchlistUpcomingSection}
+    ${extrasHtml}
+    ${sectionsHtml}
+    ${generateRecapSection(recap)}
 
     <p style="margin: 16px 0 0 0; font-size: 13px; color: #666;">
-      <strong>Note:</strong> Pre-market reports: 5:00 AM - 9:30 AM ET. Post-market: 4:00 PM - 8:00 PM ET.
+      ${generateSessionNote(allAlerts)}${generateMutedNote(extras.muted ?? [])}
     </p>
   </div>
 
@@ -419,24 +756,26 @@ function encodeMessage(message: string): string {
  * @param subject - Email subject line
  * @param htmlBody - HTML content of the email
  * @param dryRun - If true, don't actually send (just validate and log)
- * @returns true if email was sent (or would be sent in dry-run), false on error
+ * @returns Whether the email was sent (or would be, in dry-run) and its message ID
  */
 export async function sendEmail(
   to: string[],
   subject: string,
   htmlBody: string,
   dryRun = false
-): Promise<boolean> {
+): Promise<EmailResult> {
+  const notSent: EmailResult = { sent: false, recipients: to };
+
   if (to.length === 0) {
     console.error('[ERROR] No recipients provided');
-    return false;
+    return notSent;
   }
 
   // Validate inputs
   const invalidEmails = to.filter((email) => !email.includes('@'));
   if (invalidEmails.length > 0) {
     console.error(`[ERROR] Invalid email addresses: ${invalidEmails.join(', ')}`);
-    return false;
+    return notSent;
   }
 
   // Dry run mode
@@ -445,7 +784,7 @@ export async function sendEmail(
     console.log(`  To: ${to.join(', ')}`);
     console.log(`  Subject: ${subject}`);
     console.log(`  HTML body length: ${htmlBody.length} chars`);
-    return true;
+    return { sent: true, recipients: to };
   }
 
   try {
@@ -469,7 +808,7 @@ export async function sendEmail(
     console.log(`  To: ${to.join(', ')}`);
     console.log(`  Subject: ${subject}`);
 
-    return true;
+    return { sent: true, recipients: to, ...(messageId ? { messageId } : {}) };
   } catch (error: any) {
     // Handle specific Gmail API errors
     if (error.code === 401) {
@@ -482,33 +821,95 @@ export async function sendEmail(
       console.error('[ERROR] Failed to send email:', error.message || error);
     }
 
-    return false;
+    return notSent;
   }
 }
 
 /**
- * Send earnings alert email with four sections
+ * Send earnings alert email with the configured sections
  *
- * Convenience function that combines formatAlertEmail and sendEmail
+ * Convenience function that combines formatAlertEmail and sendEmail.
+ * Account-scoped recipients get their own email with only the holdings
+ * held in their accounts, and their accounts' weekly weight (skipped if that
+ * leaves nothing to send).
  *
- * @param sections - Object containing 4 arrays of alerts
+ * @param sections - Built sections (see sections.ts)
  * @param dryRun - If true, don't actually send
- * @returns true if email was sent successfully
+ * @param extras - Confirmed times, date/time changes and the recap
+ * @returns Send outcome: sent only if every email went out; recipients and
+ *   Gmail message IDs (comma-separated) of the emails sent, and the groups
+ *   they went to
  */
 export async function sendAlertEmail(
-  sections: AlertSections,
-  dryRun = false
-): Promise<boolean> {
+  sections: AlertSection[],
+  dryRun = false,
+  extras: AlertEmailExtras = {}
+): Promise<EmailResult> {
   // Get recipients
-  const recipients = getRecipients();
-  if (recipients.length === 0) {
+  const groups = getRecipientGroups();
+  if (groups.length === 0) {
     console.log('[INFO] No recipients configured, skipping email');
-    return false;
+    return { sent: false, recipients: [] };
   }
 
-  // Format email
-  const { subject, html } = formatAlertEmail(sections);
+  const results: EmailResult[] = [];
+  const sentGroups: NonNullable<EmailResult['groups']> = [];
+  for (const { recipients, accounts } of groups) {
+    let groupSections = sections;
+    let groupExtras = extras;
+    if (accounts) {
+      groupSections = sections.map((section) => ({ ...section, alerts: scopeToAccounts(section.alerts, accounts) }));
+      groupExtras = {
+        ...extras,
+        recap: scopeToAccounts(extras.recap ?? [], accounts),
+        changes: scopeToAccounts(extras.changes ?? [], accounts),
+        confirmations: (extras.confirmations ?? []).filter((c) => isInAccountScope(c.change.accounts, accounts)),
+        muted: (extras.muted ?? []).filter((m) => isInAccountScope(m.alert.accounts, accounts)),
+        week: extras.accountWeeks?.[accounts.join('\n')],
+      };
+
+      // Only warn about holdings this group sees
+      const groupTickers = new Set([
+        ...[...groupSections.flatMap((section) => section.alerts), ...(groupExtras.recap ?? [])].map((alert) => alert.report.ticker),
+        ...(groupExtras.changes ?? []).map((change) => change.report.ticker),
+        ...(groupExtras.confirmations ?? []).map((c) => c.change.report.ticker),
+      ]);
+      groupExtras.conflicts = (extras.conflicts ?? []).filter((c) => groupTickers.has(c.report.ticker));
+
+      const hasContent =
+        groupSections.some((section) => section.alerts.length > 0) ||
+        (groupExtras.recap ?? []).length > 0 ||
+        (groupExtras.changes ?? []).length > 0 ||
+        (groupExtras.confirmations ?? []).length > 0;
+      if (!hasContent) {
+        console.log(`[INFO] Nothing for accounts ${accounts.join(', ')}; not emailing ${recipients.join(', ')}`);
+        continue;
+      }
+    }
+
+    // Format email and send
+    const { subject, html } = formatAlertEmail(groupSections, groupExtras);
+    const result = await sendEmail(recipients, subject, html, dryRun);
+    results.push(result);
+    if (result.sent) {
+      sentGroups.push({
+        recipients,
+        ...(accounts ? { accounts } : {}),
+        ...(result.messageId ? { messageId: result.messageId } : {}),
+      });
+    }
+  }
+
+  if (results.length === 0) {
+    console.log('[INFO] No recipient group had anything to send');
+  }
 
-  // Send
-  return sendEmail(recipients, subject, html, dryRun);
+  const sent = results.filter((result) => result.sent);
+  const messageIds = sent.map((result) => result.messageId).filter(Boolean);
+  return {
+    sent: sent.length > 0 && sent.length === results.length,
+    recipients: sent.flatMap((result) => result.recipients),
+    ...(messageIds.length > 0 ? { messageId: messageIds.join(',') } : {}),
+    groups: sentGroups,
+  };
 }
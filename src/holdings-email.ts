@@ -6,15 +6,35 @@
  * Attachment: Holdings Report.csv
  * Arrives ~7pm each evening with closing positions
  *
- * CSV columns: Date, Account, StockTicker, CUSIP, SecurityName
+ * CSV columns: Date, Account, StockTicker, CUSIP, SecurityName, plus Shares,
+ * MarketValue and Weight when the report is configured to include them.
+ * Columns are found by header name; whichever are present are parsed.
  */
 
 import { getGmailService } from './google-auth';
+import { Holding } from './types';
 
 // Email search parameters
 const HOLDINGS_EMAIL_SUBJECT = 'Clockwise Capital LLC ETF Holdings Report';
 const HOLDINGS_ATTACHMENT_NAME = 'Holdings Report.csv';
 
+// Accepted header names per Holding field (lowercase, punctuation removed)
+const HOLDINGS_COLUMNS: Record<Exclude<keyof Holding, 'ticker'>, string[]> = {
+  cusip: ['cusip'],
+  securityName: ['securityname', 'security', 'description'],
+  account: ['account', 'accountnumber', 'accountname', 'fund'],
+  shares: ['shares', 'quantity', 'sharesheld'],
+  marketValue: ['marketvalue', 'mktvalue', 'marketvaluebase'],
+  weight: ['weight', 'weighting', 'portfolioweight', '%ofnetassets', 'percentofnetassets', '%weight', 'weight%'],
+};
+const TICKER_COLUMNS = ['stockticker', 'ticker', 'symbol'];
+
+// Weight headers that say the values are percentages
+const PERCENT_WEIGHT_COLUMNS = ['%ofnetassets', 'percentofnetassets', '%weight', 'weight%'];
+
+// Largest account weight total still read as fractions of 1
+const MAX_FRACTION_TOTAL = 1.5;
+
 /**
  * Search Gmail for recent holdings emails
  *
@@ -182,16 +202,57 @@ async function getEmailDate(messageId: string): Promise<Date | null> {
 }
 
 /**
- * Parse holdings CSV content and extract unique tickers
+ * Normalise a CSV header for matching ("Market Value" -> "marketvalue")
+ */
+function normalizeHeader(col: string): string {
+  return col.trim().toLowerCase().replace(/[^a-z0-9%]/g, '');
+}
+
+/**
+ * Parse a number like "1,234.50", "$1,234.50", "5.2%" or "(12.00)"
  *
- * Expected CSV format:
- * Date,Account,StockTicker,CUSIP,SecurityName
- * 2026-01-24,ABC123,AAPL,037833100,Apple Inc
+ * @returns The number, or undefined if the cell is empty or not a number
+ */
+function parseNumber(text: string | undefined): number | undefined {
+  if (!text?.trim()) return undefined;
+  const negative = /^\(.*\)$/.test(text.trim());
+  const value = Number(text.replace(/[$,%()\s]/g, ''));
+  if (isNaN(value)) return undefined;
+  return negative ? -value : value;
+}
+
+/**
+ * Check whether weights without a % sign are fractions of 1
+ *
+ * An account's weights add up to about 1 as fractions or about 100 as
+ * percentages (less cash and other rows that aren't stocks), whatever the
+ * size of each position, so the largest account total decides.
+ */
+function weightsAreFractions(holdings: Holding[]): boolean {
+  const totals = new Map<string, number>();
+  for (const h of holdings) {
+    if (h.weight === undefined) continue;
+    const account = h.account ?? '';
+    totals.set(account, (totals.get(account) ?? 0) + h.weight);
+  }
+  return totals.size > 0 && Math.max(...totals.values()) <= MAX_FRACTION_TOTAL;
+}
+
+/**
+ * Parse holdings CSV content into positions
+ *
+ * Expected CSV format (optional columns may be missing or in any order):
+ * Date,Account,StockTicker,CUSIP,SecurityName,Shares,MarketValue,Weight
+ * 2026-01-24,ABC123,AAPL,037833100,Apple Inc,1000,"$229,870.00",5.21%
+ *
+ * Weights are percentages. A weight column without "%" signs in its
+ * header or cells is read as fractions (0.0521 = 5.21%) when the accounts'
+ * weights add up to about 1 (see weightsAreFractions).
  *
  * @param csvContent - Raw CSV string
- * @returns Array of unique ticker symbols
+ * @returns One Holding per stock row (cash, bonds etc. are skipped)
  */
-export function parseHoldingsCSV(csvContent: string): string[] {
+export function parseHoldingsCSV(csvContent: string): Holding[] {
   const lines = csvContent.trim().split(/\r?\n/);
 
   if (lines.length < 2) {
@@ -199,11 +260,9 @@ export function parseHoldingsCSV(csvContent: string): string[] {
     return [];
   }
 
-  // Find the StockTicker column index from header
-  const header = lines[0].split(',').map((col) => col.trim().toLowerCase());
-  const tickerIndex = header.findIndex(
-    (col) => col === 'stockticker' || col === 'stock_ticker' || col === 'ticker'
-  );
+  // Find the column indexes from the header
+  const header = parseCSVLine(lines[0]).map(normalizeHeader);
+  const tickerIndex = header.findIndex((col) => TICKER_COLUMNS.includes(col));
 
   if (tickerIndex === -1) {
     console.error(
@@ -215,37 +274,127 @@ export function parseHoldingsCSV(csvContent: string): string[] {
 
   console.log(`Found StockTicker column at index ${tickerIndex}`);
 
-  // Extract tickers from data rows
-  const tickers = new Set<string>();
+  const columns = Object.fromEntries(
+    Object.entries(HOLDINGS_COLUMNS)
+      .map(([field, names]) => [field, header.findIndex((col) => names.includes(col))])
+      .filter(([, index]) => index !== -1)
+  ) as Partial<Record<keyof typeof HOLDINGS_COLUMNS, number>>;
+
+  const optional = Object.keys(columns);
+  if (optional.length > 0) {
+    console.log(`Found holdings columns: ${optional.join(', ')}`);
+  }
+
+  // Extract positions from data rows
+  const holdings: Holding[] = [];
+  let weightHasPercent = false;
 
   for (let i = 1; i < lines.length; i++) {
     const line = lines[i].trim();
     if (!line) continue;
 
-    // Simple CSV parsing (handles basic cases)
-    // For complex CSVs with quoted fields, would need a proper parser
-    const columns = parseCSVLine(line);
-    const ticker = columns[tickerIndex]?.trim().toUpperCase();
+    const cells = parseCSVLine(line);
+    const ticker = cells[tickerIndex]?.trim().toUpperCase();
 
-    if (ticker && ticker.length > 0 && ticker !== 'STOCKTICKER') {
-      // Filter out non-stock items (e.g., cash, bonds)
-      // Valid stock tickers are typically 1-5 uppercase letters
-      if (/^[A-Z]{1,5}$/.test(ticker)) {
-        tickers.add(ticker);
-      }
+    // Filter out non-stock items (e.g., cash, bonds)
+    // Valid stock tickers are typically 1-5 uppercase letters
+    if (!ticker || ticker === 'STOCKTICKER' || !/^[A-Z]{1,5}$/.test(ticker)) {
+      continue;
+    }
+
+    const text = (field: keyof typeof HOLDINGS_COLUMNS) =>
+      columns[field] === undefined ? undefined : cells[columns[field]!]?.trim() || undefined;
+
+    weightHasPercent ||= text('weight')?.includes('%') ?? false;
+    const holding: Holding = {
+      ticker,
+      cusip: text('cusip'),
+      securityName: text('securityName'),
+      account: text('account'),
+      shares: parseNumber(text('shares')),
+      marketValue: parseNumber(text('marketValue')),
+      weight: parseNumber(text('weight')),
+    };
+
+    // Drop the fields this report doesn't have
+    for (const key of Object.keys(holding) as (keyof Holding)[]) {
+      if (holding[key] === undefined) delete holding[key];
     }
+    holdings.push(holding);
+  }
+
+  // Weights given as fractions of 1 (unless the header or cells say percent)
+  const percentHeader = columns.weight !== undefined && PERCENT_WEIGHT_COLUMNS.includes(header[columns.weight]);
+  if (!weightHasPercent && !percentHeader && weightsAreFractions(holdings)) {
+    holdings.forEach((h) => {
+      if (h.weight !== undefined) h.weight *= 100;
+    });
   }
 
-  const uniqueTickers = Array.from(tickers).sort();
-  console.log(`Parsed ${uniqueTickers.length} unique tickers from holdings CSV`);
+  console.log(`Parsed ${holdings.length} positions (${holdingTickers(holdings).length} unique tickers) from holdings CSV`);
 
-  return uniqueTickers;
+  return holdings;
+}
+
+/**
+ * Unique, sorted tickers of a list of positions
+ */
+export function holdingTickers(holdings: Holding[]): string[] {
+  return [...new Set(holdings.map((h) => h.ticker))].sort();
+}
+
+/**
+ * Accounts / funds holding each ticker
+ *
+ * @param holdings - Positions from the holdings CSV
+ * @returns Ticker -> sorted account names (no entry without an Account column)
+ */
+export function getAccountsByTicker(holdings: Holding[]): Record<string, string[]> {
+  const accounts: Record<string, string[]> = {};
+  for (const { ticker, account } of holdings) {
+    if (!account) continue;
+    accounts[ticker] = [...new Set([...(accounts[ticker] ?? []), account])].sort();
+  }
+  return accounts;
+}
+
+/**
+ * Portfolio weight (percent) of each ticker
+ *
+ * With market values on every row, weights are worked out from them across
+ * all accounts. Otherwise the CSV weights are summed per ticker and divided
+ * by the number of accounts, so each account counts equally. Without either
+ * column there are no weights.
+ *
+ * @param holdings - Positions from the holdings CSV
+ * @returns Ticker -> percent of the portfolio
+ */
+export function getPortfolioWeights(holdings: Holding[]): Record<string, number> {
+  const weights: Record<string, number> = {};
+
+  if (holdings.length > 0 && holdings.every((h) => h.marketValue !== undefined)) {
+    const total = holdings.reduce((sum, h) => sum + h.marketValue!, 0);
+    if (total <= 0) return weights;
+    for (const h of holdings) {
+      weights[h.ticker] = (weights[h.ticker] ?? 0) + (h.marketValue! / total) * 100;
+    }
+    return weights;
+  }
+
+  const weighted = holdings.filter((h) => h.weight !== undefined);
+  if (weighted.length === 0) return weights;
+
+  const accounts = new Set(weighted.map((h) => h.account ?? '')).size;
+  for (const h of weighted) {
+    weights[h.ticker] = (weights[h.ticker] ?? 0) + h.weight! / accounts;
+  }
+  return weights;
 }
 
 /**
  * Parse a single CSV line, handling quoted fields
  */
-function parseCSVLine(line: string): string[] {
+export function parseCSVLine(line: string): string[] {
   const result: string[] = [];
   let current = '';
   let inQuotes = false;
@@ -273,11 +422,11 @@ function parseCSVLine(line: string): string[] {
  * Get holdings from email - main entry point
  *
  * Searches for the most recent holdings email, downloads the attachment,
- * and parses it to extract the list of tickers.
+ * and parses it into positions.
  *
- * @returns Array of unique ticker symbols from holdings, or empty array if not found
+ * @returns Positions from the holdings CSV (see holdingTickers), or empty array if not found
  */
-export async function getHoldingsFromEmail(): Promise<string[]> {
+export async function getHoldingsFromEmail(): Promise<Holding[]> {
   console.log('\n--- Getting holdings from email ---');
 
   // Search for recent holdings emails
@@ -311,8 +460,9 @@ export async function getHoldingsFromEmail(): Promise<string[]> {
       continue;
     }
 
-    // Parse CSV and extract tickers
-    const tickers = parseHoldingsCSV(csvContent);
+    // Parse CSV into positions
+    const holdings = parseHoldingsCSV(csvContent);
+    const tickers = holdingTickers(holdings);
     if (tickers.length === 0) {
       console.log('No valid tickers found, trying next email...');
       continue;
@@ -322,7 +472,7 @@ export async function getHoldingsFromEmail(): Promise<string[]> {
     console.log(`Holdings tickers: ${tickers.slice(0, 10).join(', ')}${tickers.length > 10 ? '...' : ''}`);
     console.log('---\n');
 
-    return tickers;
+    return holdings;
   }
 
   console.warn('[WARN] Could not extract holdings from any recent email');
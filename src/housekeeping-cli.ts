@@ -0,0 +1,52 @@
+#!/usr/bin/env node
+/**
+ * Housekeeping CLI - Prune old runtime data
+ *
+ * Applies the retention settings in config/settings.json to sent-alert
+ * records, snapshots, simulation reports and logs (see housekeeping.ts).
+ *
+ * Usage:
+ *   npm run housekeeping            # remove old data
+ *   npm run housekeeping:dry        # list what would be removed
+ */
+
+import { Command } from 'commander';
+import * as dotenv from 'dotenv';
+
+dotenv.config();
+
+import { loadSettings } from './settings';
+import { runHousekeeping } from './housekeeping';
+
+// CLI setup
+const program = new Command();
+program
+  .name('housekeeping')
+  .description('Prune old sent alerts, snapshots, simulation reports and logs')
+  .option('--dry-run', 'List what would be removed without removing anything', false)
+  .parse();
+
+const options = program.opts<{ dryRun: boolean }>();
+
+async function main(): Promise<void> {
+  const settings = loadSettings();
+
+  console.log(options.dryRun ? '[DRY RUN] Housekeeping (nothing is removed)' : 'Housekeeping');
+  const results = await runHousekeeping(settings, options.dryRun);
+
+  const total = results.reduce((sum, r) => sum + r.removed, 0);
+  const summary = `${options.dryRun ? 'Would remove' : 'Removed'} ${total} item(s)`;
+
+  // The other kinds of data were still pruned, but the run failed
+  const failed = results.filter((r) => r.error).map((r) => r.artifact);
+  if (failed.length > 0) {
+    console.error(`\n[ERROR] ${summary}; could not prune ${failed.join(', ')}`);
+    process.exit(1);
+  }
+  console.log(`\n[SUCCESS] ${summary}`);
+}
+
+main().catch((error) => {
+  console.error('Error:', error.message);
+  process.exit(1);
+});
@@ -0,0 +1,175 @@
+/**
+ * Housekeeping for Earnings Alerts
+ *
+ * Prunes runtime data so data/ doesn't grow forever on self-hosted runners.
+ * Retention is set per kind of data under "retention" in
+ * config/settings.json (calendar days):
+ * - sentAlerts: records in the sent-alert store, by send time
+ * - snapshots: data/snapshots/YYYY-MM-DD.json, by snapshot date
+ * - simulations: data/simulations/*.json, by file age
+ * - logs: data/*.log, by file age
+ *
+ * A failure for one kind of data is recorded in its result and the others
+ * are still pruned.
+ *
+ * Runs after every daily check, or on its own via `npm run housekeeping`.
+ */
+
+import { existsSync, readdirSync, statSync, unlinkSync } from 'fs';
+import { join, relative } from 'path';
+import { Settings } from './types';
+import { getSentAlertStore } from './sent-alert-store';
+import { SNAPSHOTS_DIR } from './snapshot';
+import { now, marketToday, toDateKey } from './market-clock';
+
+// Data directories
+const ROOT_DIR = join(__dirname, '..');
+const DATA_DIR = join(ROOT_DIR, 'data');
+const SIMULATIONS_DIR = join(DATA_DIR, 'simulations');
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * What was (or would be) removed for one kind of data
+ */
+export interface HousekeepingResult {
+  artifact: string;        // e.g. "snapshots"
+  retentionDays: number;
+  removed: number;
+  unit: 'records' | 'files';
+  files: string[];         // Removed files, relative to the project root
+  error?: string;          // Why pruning failed (removed counts what went before)
+}
+
+/**
+ * List files in a directory matching a pattern (none if it doesn't exist)
+ */
+function listFiles(dir: string, pattern: RegExp): string[] {
+  if (!existsSync(dir)) {
+    return [];
+  }
+  return readdirSync(dir)
+    .filter((name) => pattern.test(name))
+    .map((name) => join(dir, name))
+    .filter((path) => statSync(path).isFile());
+}
+
+/**
+ * Remove files (unless dry run) and build the result
+ *
+ * Stops at the first file that can't be removed; the result lists the
+ * files removed before it.
+ */
+function removeFiles(artifact: string, retentionDays: number, files: string[], dryRun: boolean): HousekeepingResult {
+  const result: HousekeepingResult = { artifact, retentionDays, removed: 0, unit: 'files', files: [] };
+  for (const file of files) {
+    if (!dryRun) {
+      try {
+        unlinkSync(file);
+      } catch (error: any) {
+        result.error = error.message;
+        break;
+      }
+    }
+    result.removed++;
+    result.files.push(relative(ROOT_DIR, file));
+  }
+  return result;
+}
+
+/**
+ * Prune one kind of data, turning a failure into a result with an error
+ */
+async function pruneArtifact(
+  artifact: string,
+  retentionDays: number,
+  unit: HousekeepingResult['unit'],
+  prune: () => HousekeepingResult | Promise<HousekeepingResult>
+): Promise<HousekeepingResult> {
+  try {
+    return await prune();
+  } catch (error: any) {
+    return { artifact, retentionDays, removed: 0, unit, files: [], error: error.message };
+  }
+}
+
+/**
+ * Files last modified before the cutoff
+ */
+function olderThan(files: string[], cutoff: Date): string[] {
+  return files.filter((file) => statSync(file).mtime < cutoff);
+}
+
+/**
+ * Prune runtime data according to the retention settings
+ *
+ * @param settings - Validated settings
+ * @param dryRun - Only report what would be removed
+ * @returns One result per kind of data, with an error if it couldn't be pruned
+ */
+export async function runHousekeeping(settings: Settings, dryRun = false): Promise<HousekeepingResult[]> {
+  const { retention } = settings;
+  const daysAgo = (days: number) => new Date(now().getTime() - days * MS_PER_DAY);
+  const results: HousekeepingResult[] = [];
+
+  // Sent-alert records
+  results.push(
+    await pruneArtifact('sent alerts', retention.sentAlerts, 'records', async () => {
+      const store = getSentAlertStore(settings);
+      try {
+        const removed = await store.prune(daysAgo(retention.sentAlerts), dryRun);
+        return {
+          artifact: `sent alerts in ${store.description}`,
+          retentionDays: retention.sentAlerts,
+          removed,
+          unit: 'records',
+          files: [],
+        };
+      } finally {
+        store.close();
+      }
+    })
+  );
+
+  // Snapshots, by the date in the file name
+  results.push(
+    await pruneArtifact('snapshots', retention.snapshots, 'files', () => {
+      const snapshotCutoff = toDateKey(new Date(marketToday().getTime() - retention.snapshots * MS_PER_DAY));
+      const snapshots = listFiles(SNAPSHOTS_DIR, /^\d{4}-\d{2}-\d{2}\.json$/).filter(
+        (file) => file.slice(-15, -5) < snapshotCutoff
+      );
+      return removeFiles('snapshots', retention.snapshots, snapshots, dryRun);
+    })
+  );
+
+  // Simulation reports and logs, by file age
+  results.push(
+    await pruneArtifact('simulations', retention.simulations, 'files', () => {
+      const simulations = olderThan(listFiles(SIMULATIONS_DIR, /\.json$/), daysAgo(retention.simulations));
+      return removeFiles('simulations', retention.simulations, simulations, dryRun);
+    })
+  );
+
+  results.push(
+    await pruneArtifact('logs', retention.logs, 'files', () => {
+      const logs = olderThan(listFiles(DATA_DIR, /\.log$/), daysAgo(retention.logs));
+      return removeFiles('logs', retention.logs, logs, dryRun);
+    })
+  );
+
+  // Report
+  const verb = dryRun ? 'Would remove' : 'Removed';
+  for (const result of results) {
+    console.log(
+      `  ${result.artifact}: ${verb.toLowerCase()} ${result.removed} ${result.unit} older than ${result.retentionDays} days`
+    );
+    for (const file of result.files) {
+      console.log(`    ${dryRun ? '[DRY RUN] ' : ''}${verb} ${file}`);
+    }
+    if (result.error) {
+      console.warn(`  [WARN] Could not prune ${result.artifact}: ${result.error}`);
+    }
+  }
+
+  return results;
+}
@@ -8,23 +8,78 @@
  * - Feature 18: CLI with --check-trading-day, --dry-run, --verbose
  * - Feature 19: Daily check orchestration
  * - Feature 27: Holdings priority - integrates holdings from email
+ * - Replay: --as-of YYYY-MM-DD rebuilds the sections for a past date
+ * - Dedup: urgent alerts already sent today are skipped (--force to resend)
+ * - Housekeeping: old runtime data in data/ is pruned after each run
+ * - Date changes: reports moved since the last run get their own section
+ * - Confirmed times: holdings whose unknown time was confirmed, with the
+ *   re-evaluated urgent alert date
+ * - Recap: holdings that reported since the previous email
+ * - Mutes: tickers muted in config/mutes.json are left out (counted in the footer)
+ * - Lead times: per-ticker / per-tag overrides from settings or a sheet tab
+ * - Company names: earnings tab, holdings CSV, then config/security-master.csv
  */
 
 import { Command } from 'commander';
 import * as dotenv from 'dotenv';
-import { format } from 'date-fns';
+import { writeFileSync, existsSync } from 'fs';
 
 // Load environment variables
 dotenv.config();
 
 // Import modules
 import { isTradingDay } from './calendar';
-import { getHoldingsFromEmail } from './holdings-email';
-import { getWatchlistTickers, getEarningsReports } from './sheets';
-import { findDueAlerts, filterUnsentAlerts, markAlertSent } from './alerts';
-import { sendAlertEmail, formatAlertEmail, getRecipients, AlertSections } from './email';
-import { CliOptions, EarningsReport, AlertDue } from './types';
-import { tradingDaysUntil, getNextTradingDay } from './calendar';
+import { applyCalendarOverrides } from './calendar-overrides';
+import { getHoldingsFromEmail, holdingTickers, getPortfolioWeights, getAccountsByTicker } from './holdings-email';
+import { getWatchlistTickers, parseEarningsRows } from './sheets';
+import { getEarningsSource } from './earnings-source';
+import { mergeEarningsReports } from './earnings-merge';
+import { sendAlertEmail, formatAlertEmail, getRecipientGroups } from './email';
+import {
+  CliOptions,
+  EmailResult,
+  AlertEmailExtras,
+  ReportHistory,
+  MuteState,
+  MutedAlert,
+  Holding,
+  EarningsReport,
+  SourceConflict,
+  PortfolioWeekSummary,
+} from './types';
+import {
+  setNow,
+  now,
+  marketToday,
+  marketInstant,
+  toMarketTime,
+  toDateKey,
+  parseDateKey,
+  formatCalendarDate,
+  MARKET_TIMEZONE,
+} from './market-clock';
+import {
+  buildAlertSections,
+  filterReportsOfInterest,
+  countSectionAlerts,
+  findReportedSinceLastEmail,
+  withSheetLeadTimes,
+  applyHoldingWeights,
+  summarizePortfolioWeek,
+} from './sections';
+import { loadSettings, getSettings } from './settings';
+import { runHousekeeping } from './housekeeping';
+import { loadMutes, loadMuteState, saveMuteState, applyMutes } from './mutes';
+import { loadSecurityMaster, resolveCompanyNames } from './company-names';
+import {
+  loadReportHistory,
+  saveReportHistory,
+  detectReportChanges,
+  splitTimeConfirmations,
+  updateReportHistory,
+} from './report-history';
+import { RunSnapshot, SnapshotSource, loadSnapshot, saveSnapshot, getSnapshotPath } from './snapshot';
+import { SentAlertStore, getSentAlertStore, removeAlreadySent, toSentAlerts } from './sent-alert-store';
 
 // ============================================================================
 // CLI Setup (Feature 18)
@@ -38,7 +93,14 @@ program
   .version('1.0.0')
   .option('--check-trading-day', 'Only run on trading days (skip weekends/holidays)', false)
   .option('--dry-run', 'Show what would be sent without actually sending', false)
-  .option('-v, --verbose', 'Verbose output', false);
+  .option('-v, --verbose', 'Verbose output', false)
+  .option('--now <datetime>', 'Run as if the current time were this ISO instant (e.g. 2025-11-28T06:00:00-05:00)')
+  .option('--as-of <date>', 'Replay the check for a past date (YYYY-MM-DD) without sending')
+  .option('--snapshot <path>', 'Use holdings/watchlist/earnings rows from a snapshot file instead of live data')
+  .option('--source <type>', 'Earnings source: sheet, csv or json (default: earningsSource in settings)')
+  .option('--source-path <path>', 'File for a csv/json earnings source')
+  .option('--output-html <path>', 'Write the rendered email HTML to a file')
+  .option('--force', 'Resend urgent alerts even if they were already sent today', false);
 
 program.parse();
 
@@ -47,8 +109,18 @@ const options: CliOptions = {
   checkTradingDay: rawOptions.checkTradingDay,
   dryRun: rawOptions.dryRun,
   verbose: rawOptions.verbose,
+  now: rawOptions.now,
+  asOf: rawOptions.asOf,
+  snapshot: rawOptions.snapshot,
+  source: rawOptions.source,
+  sourcePath: rawOptions.sourcePath,
+  outputHtml: rawOptions.outputHtml,
+  force: rawOptions.force,
 };
 
+// Time the scheduled workflow runs (ET); --as-of replays are computed as of this time
+const SCHEDULED_RUN_TIME = '06:00';
+
 // ============================================================================
 // Logging Helpers
 // ============================================================================
@@ -75,6 +147,10 @@ function logInfo(message: string): void {
   console.log(`[INFO] ${message}`);
 }
 
+function logWarn(message: string): void {
+  console.warn(`[WARN] ${message}`);
+}
+
 function logError(message: string): void {
   console.error(`[ERROR] ${message}`);
 }
@@ -84,23 +160,107 @@ function logError(message: string): void {
 // ============================================================================
 
 async function runDailyCheck(): Promise<void> {
-  const today = new Date();
-  const todayStr = format(today, 'yyyy-MM-dd');
-  const todayDisplay = format(today, 'EEEE, MMMM d, yyyy');
+  if (options.asOf && options.now) {
+    throw new Error('Use either --as-of or --now, not both');
+  }
+
+  if (options.now) {
+    const injectedNow = new Date(options.now);
+    if (isNaN(injectedNow.getTime())) {
+      throw new Error(`Invalid --now value: ${options.now}`);
+    }
+    setNow(injectedNow);
+  }
+
+  // Replay mode: run as of the scheduled time on that date, never send
+  const replay = Boolean(options.asOf);
+  if (options.asOf) {
+    const asOfDate = parseDateKey(options.asOf);
+    if (!asOfDate) {
+      throw new Error(`Invalid --as-of date: ${options.asOf} (expected YYYY-MM-DD)`);
+    }
+    setNow(marketInstant(asOfDate, SCHEDULED_RUN_TIME));
+    options.dryRun = true;
+  }
+
+  // "Today" is the market (America/New_York) date, regardless of runner timezone
+  const today = marketToday();
+  const todayStr = toDateKey(today);
+  const todayDisplay = formatCalendarDate(today, 'EEEE, MMMM d, yyyy');
 
   log('========================================');
   log('Earnings Alerts - Daily Check');
   log('========================================');
   log(`Date: ${todayDisplay}`);
 
-  if (options.dryRun) {
+  if (options.now || replay) {
+    log(`Clock: ${now().toISOString()} (${toMarketTime()} ${MARKET_TIMEZONE})`);
+  }
+
+  if (replay) {
+    log('\n*** REPLAY MODE (--as-of) - Sections rebuilt for this date, nothing will be sent ***');
+  } else if (options.dryRun) {
     log('\n*** DRY RUN MODE - No emails will be sent ***');
   }
 
+  // Snapshot input: explicit --snapshot, or the one saved on the as-of date
+  let snapshot: RunSnapshot | null = null;
+  const snapshotPath = options.snapshot ?? (replay ? getSnapshotPath(todayStr) : undefined);
+  if (snapshotPath && (options.snapshot || existsSync(snapshotPath))) {
+    snapshot = loadSnapshot(snapshotPath);
+    logInfo(`Using snapshot: ${snapshotPath}${snapshot.capturedAt ? ` (captured ${snapshot.capturedAt})` : ''}`);
+  } else if (replay) {
+    logInfo(`No snapshot for ${todayStr}; replaying against live data (which may have changed since)`);
+  }
+
   if (options.verbose) {
     logVerbose(`Options: ${JSON.stringify(options)}`);
   }
 
+  // Settings (fail fast on bad values, before any API calls)
+  const settings = loadSettings();
+  logVerbose(`Alert days before: ${settings.alertDaysBefore.join(', ')}`);
+  logVerbose(
+    `Pre-market: ${settings.preMarketRange.start}-${settings.preMarketRange.end}, ` +
+      `post-market: ${settings.postMarketRange.start}-${settings.postMarketRange.end}`
+  );
+  logVerbose(`Sections: ${settings.sections.map((s) => s.id).join(', ')}`);
+
+  // Where the earnings rows and watchlist come from (unless replaying a snapshot)
+  const earningsSource = getEarningsSource(settings.earningsSource, { type: options.source, path: options.sourcePath });
+  if (!snapshot) {
+    logInfo(`Earnings source: ${earningsSource.description}`);
+  }
+
+  // Company names for tickers the earnings tab and holdings CSV don't name
+  const securityMaster = loadSecurityMaster();
+  logVerbose(`Security master names: ${Object.keys(securityMaster).length}`);
+
+  // Mute rules (validated against the section ids)
+  const muteRules = loadMutes(settings.sections.map((s) => s.id));
+  if (options.verbose) {
+    logVerbose(`Mute rules: ${muteRules.length}`);
+    muteRules.forEach((rule) => {
+      const scope = rule.until ? `until ${rule.until}` : rule.reports ? `${rule.reports} report(s) from ${rule.since}` : 'permanent';
+      logVerbose(`  ${rule.ticker}: ${scope}${rule.sections ? ` in ${rule.sections.join(', ')}` : ''}`);
+    });
+  }
+
+  // Merge unscheduled closures / early closes / open days into the calendar
+  const calendarOverrides = applyCalendarOverrides();
+  if (options.verbose) {
+    const overrideCount =
+      calendarOverrides.closures.length +
+      calendarOverrides.earlyCloses.length +
+      calendarOverrides.openDays.length;
+    logVerbose(`Calendar overrides: ${overrideCount}`);
+    calendarOverrides.closures.forEach((o) => logVerbose(`  Closed: ${o.date} (${o.reason})`));
+    calendarOverrides.earlyCloses.forEach((o) =>
+      logVerbose(`  Early close ${o.close}: ${o.date} (${o.reason})`)
+    );
+    calendarOverrides.openDays.forEach((o) => logVerbose(`  Open: ${o.date} (${o.reason})`));
+  }
+
   // -------------------------------------------------------------------------
   // Step 1: Check if trading day (if flag set)
   // -------------------------------------------------------------------------
@@ -120,11 +280,13 @@ async function runDailyCheck(): Promise<void> {
   // -------------------------------------------------------------------------
   // Step 2: Get holdings from email (Feature 27)
   // -------------------------------------------------------------------------
-  logStep(2, 'Getting holdings from email...');
+  logStep(2, snapshot ? 'Getting holdings from snapshot...' : 'Getting holdings from email...');
 
   let holdingsTickers: string[] = [];
+  let positions: Holding[] = [];
   try {
-    holdingsTickers = await getHoldingsFromEmail();
+    positions = snapshot ? snapshot.positions ?? [] : await getHoldingsFromEmail();
+    holdingsTickers = snapshot ? snapshot.holdings : holdingTickers(positions);
     logSuccess(`Found ${holdingsTickers.length} holdings`);
 
     if (options.verbose && holdingsTickers.length > 0) {
@@ -136,13 +298,13 @@ async function runDailyCheck(): Promise<void> {
   }
 
   // -------------------------------------------------------------------------
-  // Step 3: Get watchlist tickers from sheet (Feature 27)
+  // Step 3: Get watchlist tickers (Feature 27)
   // -------------------------------------------------------------------------
   logStep(3, 'Getting watchlist tickers...');
 
   let watchlistTickers: string[] = [];
   try {
-    watchlistTickers = await getWatchlistTickers();
+    watchlistTickers = snapshot ? snapshot.watchlist : await getWatchlistTickers(earningsSource);
     logSuccess(`Found ${watchlistTickers.length} watchlist tickers`);
 
     if (options.verbose && watchlistTickers.length > 0) {
@@ -153,180 +315,322 @@ async function runDailyCheck(): Promise<void> {
     logInfo('Continuing without watchlist filter...');
   }
 
-  // Combine tickers for filtering (holdings always included)
-  const allTickersOfInterest = new Set([...holdingsTickers, ...watchlistTickers]);
-  logInfo(`Total tickers of interest: ${allTickersOfInterest.size}`);
+  logInfo(`Total tickers of interest: ${new Set([...holdingsTickers, ...watchlistTickers]).size}`);
 
   // -------------------------------------------------------------------------
-  // Step 4: Read Google Sheet (all earnings reports)
+  // Step 4: Read earnings data (all earnings reports)
   // -------------------------------------------------------------------------
-  logStep(4, 'Reading earnings data from Google Sheet...');
+  logStep(4, `Reading earnings data from ${snapshot ? 'snapshot' : earningsSource.description}...`);
 
-  let reports;
+  let earningsRows: string[][];
+  let reports: EarningsReport[];
   try {
-    reports = await getEarningsReports();
-    logSuccess(`Loaded ${reports.length} earnings reports`);
+    earningsRows = snapshot ? snapshot.earningsRows : await earningsSource.readEarningsRows();
+    const result = parseEarningsRows(earningsRows);
+    reports = resolveCompanyNames(result.reports, positions, securityMaster);
+    logSuccess(`Loaded ${reports.length} earnings reports (${result.skippedRows} rows skipped)`);
 
     if (options.verbose && reports.length > 0) {
       logVerbose('Sample reports:');
       reports.slice(0, 3).forEach((r) => {
-        logVerbose(`  ${r.ticker} - ${r.company} - ${format(r.reportDate, 'yyyy-MM-dd')} (${r.timeOfDay})`);
+        logVerbose(`  ${r.ticker} - ${r.company} - ${toDateKey(r.reportDate)} (${r.timeOfDay})`);
       });
       if (reports.length > 3) {
         logVerbose(`  ... and ${reports.length - 3} more`);
       }
     }
   } catch (error: any) {
-    logError(`Failed to read Google Sheet: ${error.message}`);
+    logError(`Failed to read earnings data: ${error.message}`);
     throw error;
   }
 
+  // Additional earnings sources, merged with the main one by priority
+  const additionalSources: SnapshotSource[] = snapshot ? snapshot.additionalSources ?? [] : [];
+  if (!snapshot) {
+    for (const config of settings.additionalEarningsSources) {
+      try {
+        const source = getEarningsSource(config);
+        additionalSources.push({ source: source.description, priority: config.priority, earningsRows: await source.readEarningsRows() });
+      } catch (error: any) {
+        logWarn(`Could not read earnings source ${config.name ?? config.path ?? config.type}: ${error.message}. Merging without it.`);
+      }
+    }
+  }
+
+  const sourceReports = [{ source: earningsSource.description, priority: settings.earningsSource.priority, reports }];
+  for (const { source, priority, earningsRows: rows } of additionalSources) {
+    try {
+      const result = parseEarningsRows(rows);
+      sourceReports.push({ source, priority, reports: resolveCompanyNames(result.reports, positions, securityMaster) });
+      logSuccess(`Loaded ${result.reports.length} earnings reports from ${source} (${result.skippedRows} rows skipped)`);
+    } catch (error: any) {
+      logWarn(`Could not parse earnings source ${source}: ${error.message}. Merging without it.`);
+    }
+  }
+
+  const merged = mergeEarningsReports(sourceReports, today);
+  reports = merged.reports;
+  const sourceConflicts: SourceConflict[] = merged.conflicts;
+  if (sourceReports.length > 1) {
+    logInfo(`Merged ${sourceReports.length} earnings sources (${sourceConflicts.length} tickers disagree)`);
+    if (options.verbose) {
+      const wins = new Map<string, number>();
+      reports.forEach((r) => wins.set(r.source!, (wins.get(r.source!) ?? 0) + 1));
+      wins.forEach((count, source) => logVerbose(`  ${source}: ${count} reports`));
+    }
+  }
+
+  // Per-ticker / per-tag lead times from the sheet tab, if configured
+  let sectionConfig = settings;
+  let leadTimeRows: string[][] | undefined;
+  const leadTimesTab = settings.sheets.earnings.leadTimesTab;
+  if (leadTimesTab && !snapshot && !earningsSource.readLeadTimeRows) {
+    logVerbose(`Lead times tab "${leadTimesTab}" skipped (the ${earningsSource.description} has no tabs)`);
+  } else if (leadTimesTab) {
+    try {
+      leadTimeRows = snapshot ? snapshot.leadTimeRows ?? [] : await earningsSource.readLeadTimeRows!(leadTimesTab);
+    } catch (error: any) {
+      logWarn(`Could not read lead times tab "${leadTimesTab}": ${error.message}. Using leadTimes from settings only.`);
+    }
+    if (leadTimeRows) {
+      sectionConfig = withSheetLeadTimes(settings, leadTimeRows, leadTimesTab);
+    }
+  }
+  if (options.verbose && sectionConfig.leadTimes.length > 0) {
+    logVerbose(`Lead time overrides: ${sectionConfig.leadTimes.length}`);
+    sectionConfig.leadTimes.forEach((o) => {
+      logVerbose(`  ${o.ticker ?? `tag ${o.tag}`}: ${o.days} trading days (${o.sessions.join(', ')})`);
+    });
+  }
+
+  // Save this run's inputs so it can be replayed later with --as-of
+  if (!snapshot && !replay) {
+    try {
+      const savedPath = saveSnapshot({
+        date: todayStr,
+        holdings: holdingsTickers,
+        positions,
+        watchlist: watchlistTickers,
+        earningsRows,
+        ...(leadTimeRows ? { leadTimeRows } : {}),
+        ...(additionalSources.length > 0 ? { additionalSources } : {}),
+      });
+      logVerbose(`Saved snapshot: ${savedPath}`);
+    } catch (error: any) {
+      logError(`Failed to save snapshot: ${error.message}`);
+    }
+  }
+
   if (reports.length === 0) {
     logInfo('No earnings reports found in sheet. Nothing to do.');
     return;
   }
 
   // Filter earnings reports to only tickers of interest (Feature 27)
-  const filteredReports =
-    allTickersOfInterest.size > 0
-      ? reports.filter((r) => allTickersOfInterest.has(r.ticker.toUpperCase()))
-      : reports;
+  const filteredReports = filterReportsOfInterest(reports, holdingsTickers, watchlistTickers);
 
   logInfo(`Filtered to ${filteredReports.length} reports matching holdings/watchlist`);
 
+  // Holdings whose earnings sources disagree get a warning row in the email
+  const holdingsSet = new Set(holdingsTickers.map((t) => t.toUpperCase()));
+  const conflicts = sourceConflicts.filter((c) => holdingsSet.has(c.report.ticker));
+  conflicts.forEach((c) => {
+    const others = c.others.map((o) => `${o.source} ${toDateKey(o.reportDate)}`).join(', ');
+    logWarn(`Sources disagree on ${c.report.ticker}: using ${c.report.source} ${toDateKey(c.report.reportDate)} (also ${others})`);
+  });
+
   // -------------------------------------------------------------------------
-  // Step 5: Calculate alerts for all 5 sections
+  // Step 5: Calculate alerts for all configured sections
   // -------------------------------------------------------------------------
   logStep(5, 'Calculating alerts for all sections...');
 
-  const holdingsSet = new Set(holdingsTickers.map((t) => t.toUpperCase()));
-  // todayStr already defined at top of function
-  const day1 = getNextTradingDay(today);
-  const day1Str = format(day1, 'yyyy-MM-dd');
-  const day2 = getNextTradingDay(day1);
-  const day2Str = format(day2, 'yyyy-MM-dd');
-  const day3 = getNextTradingDay(day2);
-  const day3Str = format(day3, 'yyyy-MM-dd');
-  const day4 = getNextTradingDay(day3);
-  const day4Str = format(day4, 'yyyy-MM-dd');
-  const day5 = getNextTradingDay(day4);
-  const day5Str = format(day5, 'yyyy-MM-dd');
-
-  // Helper to create AlertDue from report
-  function createAlertDue(report: EarningsReport): AlertDue {
-    const daysUntil = tradingDaysUntil(today, report.reportDate);
-    return {
-      report,
-      alertDate: today,
-      reportDateFormatted: format(report.reportDate, 'EEE, MMM d'),
-      daysUntilReport: daysUntil,
-    };
-  }
-
-  // Helper to get report date string
-  function getReportDateStr(report: EarningsReport): string {
-    return format(report.reportDate, 'yyyy-MM-dd');
-  }
-
-  // Separate reports into holdings vs watchlist
-  const holdingsReports = filteredReports.filter((r) => holdingsSet.has(r.ticker.toUpperCase()));
-  const watchlistReports = filteredReports.filter((r) => !holdingsSet.has(r.ticker.toUpperCase()));
-
-  // Treat 'unknown' time as premarket (safer: alert earlier rather than miss)
-  const isPremarket = (r: EarningsReport) => r.timeOfDay === 'premarket' || r.timeOfDay === 'unknown';
-
-  // Section 1: Holdings - Pre-market today
-  const holdingsPremarket = holdingsReports
-    .filter((r) => getReportDateStr(r) === todayStr && isPremarket(r))
-    .map(createAlertDue);
-
-  // Section 2: Holdings - Before next open (post-market today + pre-market tomorrow)
-  const holdingsBeforeNextOpen = holdingsReports
-    .filter((r) => {
-      const dateStr = getReportDateStr(r);
-      // Post-market today
-      if (dateStr === todayStr && r.timeOfDay === 'postmarket') return true;
-      // Pre-market (or unknown) tomorrow (day 1)
-      if (dateStr === day1Str && isPremarket(r)) return true;
-      return false;
-    })
-    .map(createAlertDue);
-
-  // Section 3: Holdings - 2-5 days out (post-market day1 through pre-market day5)
-  const holdingsUpcoming = holdingsReports
-    .filter((r) => {
-      const dateStr = getReportDateStr(r);
-      // Post-market day 1
-      if (dateStr === day1Str && r.timeOfDay === 'postmarket') return true;
-      // Day 2-4: both pre and post market
-      if ([day2Str, day3Str, day4Str].includes(dateStr)) return true;
-      // Day 5: pre-market (or unknown) only
-      if (dateStr === day5Str && isPremarket(r)) return true;
-      return false;
-    })
-    .map(createAlertDue);
-
-  // Section 4: Watchlist - Pre-market today
-  const watchlistPremarket = watchlistReports
-    .filter((r) => getReportDateStr(r) === todayStr && isPremarket(r))
-    .map(createAlertDue);
-
-  // Section 5: Watchlist - Next 2 days (post-market today through pre-market day2)
-  const watchlistUpcoming = watchlistReports
-    .filter((r) => {
-      const dateStr = getReportDateStr(r);
-      // Post-market today
-      if (dateStr === todayStr && r.timeOfDay === 'postmarket') return true;
-      // Day 1: both pre and post market
-      if (dateStr === day1Str) return true;
-      // Day 2: pre-market (or unknown) only
-      if (dateStr === day2Str && isPremarket(r)) return true;
-      return false;
-    })
-    .map(createAlertDue);
-
-  logSuccess(`Holdings: pre-mkt=${holdingsPremarket.length}, before-next-open=${holdingsBeforeNextOpen.length}, upcoming=${holdingsUpcoming.length}`);
-  logSuccess(`Watchlist: pre-mkt=${watchlistPremarket.length}, upcoming=${watchlistUpcoming.length}`);
+  const accountsByTicker = getAccountsByTicker(positions);
+  let alertSections = buildAlertSections(filteredReports, holdingsTickers, today, sectionConfig, accountsByTicker);
 
-  if (options.verbose) {
-    if (holdingsPremarket.length > 0) {
-      logVerbose('Holdings - Pre-market:');
-      holdingsPremarket.forEach((alert) => {
-        logVerbose(`  ${alert.report.ticker} - ${alert.reportDateFormatted} (${alert.report.timeOfDay})`);
-      });
+  for (const { definition, alerts } of alertSections) {
+    logSuccess(`${definition.id}: ${alerts.length}`);
+  }
+
+  // Label holdings with their portfolio weight (when the CSV has market values or weights)
+  const weights = getPortfolioWeights(positions);
+  alertSections = applyHoldingWeights(alertSections, weights);
+  const week = summarizePortfolioWeek(filteredReports, weights, today);
+  if (week) {
+    logSuccess(`Portfolio reporting this week: ${week.weight.toFixed(1)}% (${week.holdings} holdings)`);
+  } else {
+    logVerbose('No market value or weight column in the holdings CSV; holdings not weighted');
+  }
+
+  // Account-scoped recipients get the weight of their own accounts
+  const accountWeeks: Record<string, PortfolioWeekSummary> = {};
+  if (week) {
+    try {
+      for (const { accounts } of getRecipientGroups()) {
+        if (!accounts) continue;
+        const accountPositions = positions.filter((p) => p.account !== undefined && accounts.includes(p.account));
+        const accountWeek = summarizePortfolioWeek(filteredReports, getPortfolioWeights(accountPositions), today);
+        if (accountWeek) {
+          accountWeeks[accounts.join('\n')] = accountWeek;
+        }
+      }
+    } catch (error: any) {
+      logVerbose(`Could not read recipients for account weights: ${error.message}`);
     }
-    if (holdingsBeforeNextOpen.length > 0) {
-      logVerbose('Holdings - Before Next Open:');
-      holdingsBeforeNextOpen.forEach((alert) => {
-        logVerbose(`  ${alert.report.ticker} - ${alert.reportDateFormatted} (${alert.report.timeOfDay})`);
-      });
+  }
+
+  // Leave out muted tickers (replays use the mute state as-is and don't update it)
+  let muteState: MuteState | null = null;
+  let muted: MutedAlert[] = [];
+  if (muteRules.length > 0) {
+    try {
+      const result = applyMutes(alertSections, muteRules, loadMuteState(), filteredReports, today);
+      alertSections = result.sections;
+      muted = result.muted;
+      muteState = result.state;
+      for (const { alert, sectionId, rule } of muted) {
+        log(`  [MUTED] ${alert.report.ticker} (${sectionId}${rule.reason ? `, ${rule.reason}` : ''})`);
+      }
+      logSuccess(`muted: ${muted.length}`);
+    } catch (error: any) {
+      logWarn(`Could not read mute state: ${error.message}. Sending without mutes.`);
     }
-    if (holdingsUpcoming.length > 0) {
-      logVerbose('Holdings - 2-5 Days:');
-      holdingsUpcoming.forEach((alert) => {
-        logVerbose(`  ${alert.report.ticker} - ${alert.reportDateFormatted} (${alert.report.timeOfDay})`);
-      });
+  }
+
+  // Looking back: holdings that reported since the previous email
+  const recap = findReportedSinceLastEmail(filteredReports, holdingsTickers, today, accountsByTicker);
+  logSuccess(`reportedSinceLastEmail: ${recap.length}`);
+
+  // Reports moved since the last run (replays have no history as of that day)
+  let reportHistory: ReportHistory | null = null;
+  const extras: AlertEmailExtras = {
+    changes: [],
+    confirmations: [],
+    recap,
+    muted,
+    conflicts,
+    ...(week ? { week, accountWeeks } : {}),
+  };
+  if (!replay) {
+    try {
+      reportHistory = loadReportHistory();
+      const detected = detectReportChanges(reportHistory, filteredReports, holdingsTickers, today, accountsByTicker);
+
+      // Holdings going from unknown to a confirmed time get their own section
+      const split = splitTimeConfirmations(detected);
+      extras.changes = split.changes;
+      extras.confirmations = split.confirmations;
+      logSuccess(`timeConfirmed: ${split.confirmations.length}`);
+      logSuccess(`dateTimeChanged: ${split.changes.length}`);
+    } catch (error: any) {
+      logWarn(`Could not read report history: ${error.message}. Skipping date change detection.`);
+    }
+  }
+  const changes = extras.changes ?? [];
+  const confirmations = extras.confirmations ?? [];
+
+  // Record this run's dates and used-up mutes for the next run (not in dry-run, so it doesn't hide changes)
+  const saveRunState = () => {
+    if (reportHistory && !options.dryRun) {
+      try {
+        saveReportHistory(updateReportHistory(reportHistory, filteredReports, today));
+        logVerbose('Saved report history');
+      } catch (error: any) {
+        logWarn(`Could not save report history: ${error.message}`);
+      }
     }
-    if (watchlistPremarket.length > 0) {
-      logVerbose('Watchlist - Pre-market:');
-      watchlistPremarket.forEach((alert) => {
-        logVerbose(`  ${alert.report.ticker} - ${alert.reportDateFormatted} (${alert.report.timeOfDay})`);
+    if (muteState && !options.dryRun && !replay) {
+      try {
+        saveMuteState(muteState);
+      } catch (error: any) {
+        logWarn(`Could not save mute state: ${error.message}`);
+      }
+    }
+  };
+
+  // Skip urgent alerts a previous run already sent today (replays don't touch the store)
+  let store: SentAlertStore | null = null;
+  if (!replay) {
+    store = getSentAlertStore(settings);
+    logVerbose(`Sent-alert store: ${store.description}`);
+
+    if (options.force) {
+      logInfo('--force set: not checking for alerts already sent today');
+    } else {
+      try {
+        const deduped = removeAlreadySent(alertSections, await store.load(), today);
+        for (const skipped of deduped.skipped) {
+          log(`  [SKIP] Already sent today: ${skipped.ticker} (${skipped.sectionId}, report date ${skipped.reportDate})`);
+        }
+
+        // Only informational sections (and the recap) left: today's email already went out
+        const urgentLeft = deduped.sections.some((s) => s.definition.urgent && s.alerts.length > 0);
+        if (deduped.skipped.length > 0 && !urgentLeft && changes.length === 0 && confirmations.length === 0) {
+          logInfo(`All urgent alerts were already sent today (${deduped.skipped.length}). Nothing to send; use --force to resend.`);
+          store.close();
+          return;
+        }
+        alertSections = deduped.sections;
+      } catch (error: any) {
+        logWarn(`Could not read sent alerts from ${store.description}: ${error.message}. Continuing without dedup.`);
+      }
+    }
+  }
+
+  // Replays always list the section contents
+  if (options.verbose || replay) {
+    const logSection = replay ? log : logVerbose;
+    for (const { definition, alerts } of alertSections) {
+      if (alerts.length === 0) continue;
+      logSection(`${definition.title}:`);
+      alerts.forEach((alert) => {
+        logSection(`  ${alert.report.ticker} - ${alert.reportDateFormatted} (${alert.report.timeOfDay})`);
       });
     }
-    if (watchlistUpcoming.length > 0) {
-      logVerbose('Watchlist - Next 2 Days:');
-      watchlistUpcoming.forEach((alert) => {
-        logVerbose(`  ${alert.report.ticker} - ${alert.reportDateFormatted} (${alert.report.timeOfDay})`);
+    if (confirmations.length > 0) {
+      logSection('Time now confirmed:');
+      for (const { change, previousAlertDate, alertDate } of confirmations) {
+        logSection(
+          `  ${change.report.ticker} - ${toDateKey(change.report.reportDate)} ${change.report.timeOfDay} ` +
+            `(urgent alert ${toDateKey(previousAlertDate)} -> ${toDateKey(alertDate)})`
+        );
+      }
+    }
+    if (changes.length > 0) {
+      logSection('Date / time changed:');
+      for (const { report, previous } of changes) {
+        logSection(
+          `  ${report.ticker} - ${previous.reportDate} (${previous.timeOfDay}) -> ` +
+            `${toDateKey(report.reportDate)} (${report.timeOfDay}${report.rawTimeString ? `, "${report.rawTimeString}"` : ''})`
+        );
+      }
+    }
+    if (recap.length > 0) {
+      logSection('Reported since last email:');
+      recap.forEach((alert) => {
+        logSection(`  ${alert.report.ticker} - ${alert.reportDateFormatted} (${alert.report.timeOfDay})`);
       });
     }
   }
 
   // Check if there's anything to send
-  const totalAlerts = holdingsPremarket.length + holdingsBeforeNextOpen.length +
-                      holdingsUpcoming.length + watchlistPremarket.length + watchlistUpcoming.length;
+  const totalAlerts = countSectionAlerts(alertSections);
 
-  if (totalAlerts === 0) {
+  if (totalAlerts === 0 && changes.length === 0 && confirmations.length === 0 && recap.length === 0) {
     logInfo('No alerts in any section. Nothing to send.');
+    saveRunState();
+    store?.close();
+    return;
+  }
+
+  if (options.outputHtml) {
+    writeFileSync(options.outputHtml, formatAlertEmail(alertSections, extras).html, 'utf-8');
+    logSuccess(`Wrote email HTML to ${options.outputHtml}`);
+  }
+
+  if (replay) {
+    const { subject } = formatAlertEmail(alertSections, extras);
+    log(`\n  Subject: ${subject}`);
+    logSuccess(`Replay complete for ${todayStr}. Nothing was sent.`);
     return;
   }
 
@@ -335,34 +639,41 @@ async function runDailyCheck(): Promise<void> {
   // -------------------------------------------------------------------------
   logStep(6, options.dryRun ? 'Preparing email (dry run)...' : 'Sending email...');
 
-  const alertSections: AlertSections = {
-    holdingsPremarket,
-    holdingsBeforeNextOpen,
-    holdingsUpcoming,
-    watchlistPremarket,
-    watchlistUpcoming,
-  };
-
   // Show email preview in verbose mode or dry run
   if (options.verbose || options.dryRun) {
-    const { subject } = formatAlertEmail(alertSections);
+    const { subject } = formatAlertEmail(alertSections, extras);
     log(`\n  Subject: ${subject}`);
-    log(`  Recipients: ${getRecipients().join(', ') || '(none configured)'}`);
-    log(`  Holdings pre-mkt: ${holdingsPremarket.length}`);
-    log(`  Holdings before next open: ${holdingsBeforeNextOpen.length}`);
-    log(`  Holdings upcoming: ${holdingsUpcoming.length}`);
-    log(`  Watchlist pre-mkt: ${watchlistPremarket.length}`);
-    log(`  Watchlist upcoming: ${watchlistUpcoming.length}`);
+    const groups = getRecipientGroups();
+    if (groups.length === 0) {
+      log('  Recipients: (none configured)');
+    }
+    for (const { recipients, accounts } of groups) {
+      log(`  Recipients${accounts ? ` (accounts ${accounts.join(', ')})` : ''}: ${recipients.join(', ')}`);
+    }
+    if (confirmations.length > 0) {
+      log(`  Time now confirmed: ${confirmations.length}`);
+    }
+    if (changes.length > 0) {
+      log(`  Date / time changed: ${changes.length}`);
+    }
+    for (const { definition, alerts } of alertSections) {
+      log(`  ${definition.title}: ${alerts.length}`);
+    }
+    if (recap.length > 0) {
+      log(`  Reported since last email: ${recap.length}`);
+    }
   }
 
-  let emailSent: boolean;
+  let email: EmailResult;
   try {
-    emailSent = await sendAlertEmail(alertSections, options.dryRun);
+    email = await sendAlertEmail(alertSections, options.dryRun, extras);
 
     if (options.dryRun) {
       logSuccess('Dry run complete. Email would have been sent.');
-    } else if (emailSent) {
+    } else if (email.sent) {
       logSuccess('Email sent successfully!');
+      // Only once the changes have been reported
+      saveRunState();
     } else {
       logError('Email was not sent (see errors above)');
     }
@@ -372,21 +683,28 @@ async function runDailyCheck(): Promise<void> {
   }
 
   // -------------------------------------------------------------------------
-  // Step 7: Mark urgent alerts as sent (skip in dry-run mode)
+  // Step 7: Mark alerts in urgent sections as sent (skip in dry-run mode)
   // -------------------------------------------------------------------------
-  const urgentAlerts = [...holdingsPremarket, ...holdingsBeforeNextOpen, ...watchlistPremarket];
-  if (!options.dryRun && emailSent && urgentAlerts.length > 0) {
+  const urgentAlerts = alertSections
+    .filter((section) => section.definition.urgent)
+    .flatMap((section) => toSentAlerts(section, today, email));
+  if (!options.dryRun && email.sent && urgentAlerts.length > 0 && store) {
     logStep(7, 'Marking urgent alerts as sent...');
 
-    for (const alert of urgentAlerts) {
-      markAlertSent(alert.report.ticker, alert.report.reportDate);
-      logVerbose(`Marked as sent: ${alert.report.ticker}`);
+    try {
+      await store.record(urgentAlerts);
+      for (const alert of urgentAlerts) {
+        logVerbose(`Marked as sent: ${alert.ticker} (${alert.sectionId})`);
+      }
+      logSuccess(`Marked ${urgentAlerts.length} urgent alert(s) as sent in ${store.description}`);
+    } catch (error: any) {
+      // The email already went out; a failed write only risks a resend on re-run
+      logError(`Failed to record sent alerts in ${store.description}: ${error.message}`);
     }
-
-    logSuccess(`Marked ${urgentAlerts.length} urgent alert(s) as sent`);
   } else if (options.dryRun) {
     logStep(7, 'Skipping mark-as-sent (dry run mode)');
   }
+  store?.close();
 
   // -------------------------------------------------------------------------
   // Summary
@@ -398,15 +716,35 @@ async function runDailyCheck(): Promise<void> {
   log(`Watchlist tickers: ${watchlistTickers.length}`);
   log(`Total reports in sheet: ${reports.length}`);
   log(`Filtered reports (of interest): ${filteredReports.length}`);
+  log(`Times confirmed: ${confirmations.length}`);
+  log(`Date / time changes: ${changes.length}`);
+  log(`Muted alerts: ${muted.length}`);
+  log(`Source disagreements (holdings): ${conflicts.length}`);
   log('');
-  log(`Holdings - Pre-market: ${holdingsPremarket.length}`);
-  log(`Holdings - Before Next Open: ${holdingsBeforeNextOpen.length}`);
-  log(`Holdings - 2-5 Days: ${holdingsUpcoming.length}`);
-  log(`Watchlist - Pre-market: ${watchlistPremarket.length}`);
-  log(`Watchlist - Next 2 Days: ${watchlistUpcoming.length}`);
+  for (const { definition, alerts } of alertSections) {
+    log(`${definition.title}: ${alerts.length}`);
+  }
+  log(`Reported since last email: ${recap.length}`);
   log('========================================');
 }
 
+// ============================================================================
+// Housekeeping
+// ============================================================================
+
+/**
+ * Prune old runtime data (dry-run lists what would go). A failure is only
+ * a warning; it must not fail the daily check.
+ */
+async function runHousekeepingStep(): Promise<void> {
+  log(options.dryRun ? '\n[Housekeeping] Dry run - listing old data' : '\n[Housekeeping] Pruning old data...');
+  try {
+    await runHousekeeping(getSettings(), options.dryRun);
+  } catch (error: any) {
+    logWarn(`Housekeeping failed: ${error.message}`);
+  }
+}
+
 // ============================================================================
 // Main Entry Point
 // ============================================================================
@@ -414,6 +752,11 @@ async function runDailyCheck(): Promise<void> {
 async function main(): Promise<void> {
   try {
     await runDailyCheck();
+
+    // Replays leave data/ alone
+    if (!options.asOf) {
+      await runHousekeepingStep();
+    }
   } catch (error: any) {
     logError(error.message || 'Unknown error occurred');
     if (options.verbose && error.stack) {
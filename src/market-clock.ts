@@ -0,0 +1,241 @@
+/**
+ * Market Clock for Earnings Alerts
+ *
+ * Single definition of "now", "today" and date-only comparisons, all in
+ * America/New_York regardless of the runner's local timezone.
+ *
+ * Conventions:
+ * - Instants (e.g. "now", sentAt) are ordinary Dates
+ * - Calendar dates (today, report dates, trading days) are Dates at UTC
+ *   midnight of that calendar day, matching calendar.ts. Never format them
+ *   with date-fns format() directly, which uses the local timezone; use
+ *   formatCalendarDate() or toDateKey() instead.
+ *
+ * "Now" is injectable (setNow) so any run can be reproduced for an instant.
+ */
+
+import { format } from 'date-fns';
+
+/**
+ * Timezone that defines the market day
+ */
+export const MARKET_TIMEZONE = 'America/New_York';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// Formatters for the calendar date and time of an instant, per timezone
+const zonedFormatters = new Map<string, Intl.DateTimeFormat>();
+
+function getZonedFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = zonedFormatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23',
+    });
+    zonedFormatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+// Injected "now" (null = real clock)
+let fixedNow: Date | null = null;
+
+/**
+ * Override the current instant (e.g. from --now), or pass null to
+ * go back to the real clock
+ */
+export function setNow(instant: Date | null): void {
+  if (instant && isNaN(instant.getTime())) {
+    throw new Error('Invalid instant for market clock');
+  }
+  fixedNow = instant ? new Date(instant.getTime()) : null;
+}
+
+/**
+ * Get the current instant (injected or real)
+ */
+export function now(): Date {
+  return fixedNow ? new Date(fixedNow.getTime()) : new Date();
+}
+
+/**
+ * Get the date and time parts of an instant in a timezone (default: market time)
+ */
+function getZonedParts(instant: Date, timeZone: string = MARKET_TIMEZONE): Record<string, number> {
+  const parts: Record<string, number> = {};
+  for (const part of getZonedFormatter(timeZone).formatToParts(instant)) {
+    if (part.type !== 'literal') {
+      parts[part.type] = parseInt(part.value, 10);
+    }
+  }
+  return parts;
+}
+
+/**
+ * Check whether a string is a timezone known to Intl (e.g. "Europe/London")
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    getZonedFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Build a calendar date (UTC midnight) from year, month (1-based) and day
+ */
+export function calendarDate(year: number, month: number, day: number): Date {
+  return new Date(Date.UTC(year, month - 1, day));
+}
+
+/**
+ * Get the market (America/New_York) calendar date of an instant
+ *
+ * @param instant - Defaults to now()
+ * @returns Calendar date (UTC midnight)
+ *
+ * @example
+ * // 02:00 UTC on Jan 10 is still Jan 9 in New York
+ * toMarketDate(new Date('2025-01-10T02:00:00Z')) // 2025-01-09
+ */
+export function toMarketDate(instant: Date = now()): Date {
+  const parts = getZonedParts(instant);
+  return calendarDate(parts.year, parts.month, parts.day);
+}
+
+/**
+ * Get today's market calendar date
+ */
+export function marketToday(): Date {
+  return toMarketDate(now());
+}
+
+/**
+ * Get the instant of a wall-clock time on a calendar date in a timezone
+ *
+ * @param date - Calendar date (UTC midnight)
+ * @param time - Wall-clock time ("HH:mm")
+ * @param timeZone - IANA timezone (default: America/New_York)
+ * @returns Instant
+ *
+ * @example
+ * zonedInstant(calendarDate(2025, 1, 10), '07:00', 'Europe/London') // 2025-01-10T07:00:00Z
+ */
+export function zonedInstant(date: Date, time: string, timeZone: string = MARKET_TIMEZONE): Date {
+  const [hours, minutes] = time.split(':').map(Number);
+  const wallClock = Date.UTC(
+    date.getUTCFullYear(),
+    date.getUTCMonth(),
+    date.getUTCDate(),
+    hours,
+    minutes
+  );
+
+  // Start from the wall-clock time read as UTC and correct by the zone's
+  // offset; a second pass handles instants that straddle a DST change
+  let instant = wallClock;
+  for (let i = 0; i < 2; i++) {
+    const parts = getZonedParts(new Date(instant), timeZone);
+    const observed = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute);
+    instant += wallClock - observed;
+  }
+  return new Date(instant);
+}
+
+/**
+ * Get the instant of a market wall-clock time on a calendar date
+ *
+ * @param date - Calendar date (UTC midnight)
+ * @param time - Wall-clock time in America/New_York ("HH:mm")
+ * @returns Instant
+ *
+ * @example
+ * marketInstant(calendarDate(2025, 1, 10), '06:00') // 2025-01-10T11:00:00Z
+ */
+export function marketInstant(date: Date, time: string): Date {
+  return zonedInstant(date, time, MARKET_TIMEZONE);
+}
+
+/**
+ * Get the market wall-clock time of an instant as "HH:mm"
+ */
+export function toMarketTime(instant: Date = now()): string {
+  const parts = getZonedParts(instant);
+  return `${String(parts.hour).padStart(2, '0')}:${String(parts.minute).padStart(2, '0')}`;
+}
+
+/**
+ * Convert a locally-parsed date (e.g. from date-fns parse) to a calendar
+ * date, keeping the local year/month/day
+ */
+export function toCalendarDate(localDate: Date): Date {
+  return calendarDate(localDate.getFullYear(), localDate.getMonth() + 1, localDate.getDate());
+}
+
+/**
+ * Get the YYYY-MM-DD key of a calendar date
+ */
+export function toDateKey(date: Date): string {
+  const year = date.getUTCFullYear();
+  const month = String(date.getUTCMonth() + 1).padStart(2, '0');
+  const day = String(date.getUTCDate()).padStart(2, '0');
+  return `${year}-${month}-${day}`;
+}
+
+/**
+ * Parse a YYYY-MM-DD key into a calendar date
+ *
+ * @returns Calendar date, or null if the key is not a real date
+ */
+export function parseDateKey(key: string): Date | null {
+  const match = key.trim().match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!match) return null;
+
+  const date = calendarDate(parseInt(match[1], 10), parseInt(match[2], 10), parseInt(match[3], 10));
+  return toDateKey(date) === key.trim() ? date : null;
+}
+
+/**
+ * Check whether two calendar dates are the same day
+ */
+export function isSameMarketDay(a: Date, b: Date): boolean {
+  return toDateKey(a) === toDateKey(b);
+}
+
+/**
+ * Number of calendar days from one calendar date to another
+ */
+export function calendarDaysBetween(from: Date, to: Date): number {
+  return Math.round((to.getTime() - from.getTime()) / MS_PER_DAY);
+}
+
+/**
+ * Add days to a calendar date
+ *
+ * Steps in UTC, unlike date-fns addDays (local timezone), so the result
+ * doesn't depend on the runner's timezone.
+ *
+ * @param days - Days to add (negative to go back)
+ */
+export function addCalendarDays(date: Date, days: number): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() + days));
+}
+
+/**
+ * Format a calendar date with a date-fns pattern, independent of the
+ * runner's timezone
+ *
+ * @example
+ * formatCalendarDate(calendarDate(2025, 11, 28), 'EEE, MMM d') // "Fri, Nov 28"
+ */
+export function formatCalendarDate(date: Date, pattern: string): string {
+  return format(new Date(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()), pattern);
+}
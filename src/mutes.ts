@@ -0,0 +1,300 @@
+/**
+ * Mutes and Snoozes for Earnings Alerts
+ *
+ * Loads config/mutes.json so individual tickers can be left out of the
+ * email without removing them from the watchlist:
+ * {
+ *   "mutes": [
+ *     { "ticker": "XYZ", "reason": "Never interesting" },
+ *     { "ticker": "ABC", "until": "2026-03-01" },
+ *     { "ticker": "DEF", "reports": 1, "since": "2026-01-10" },
+ *     { "ticker": "GHI", "sections": ["watchlistUpcoming"] }
+ *   ]
+ * }
+ *
+ * - No "until"/"reports": muted permanently
+ * - "until": muted through that date
+ * - "reports" + "since": muted for the next N reports dated on or after
+ *   "since". The report dates used up are kept in data/mute-state.json.
+ * - "sections": only muted in those sections (default: all)
+ *
+ * Muted alerts are counted in the email footer so nothing disappears
+ * silently.
+ */
+
+import { readFileSync, writeFileSync, existsSync, mkdirSync, renameSync } from 'fs';
+import { join, dirname } from 'path';
+import { AlertSection, EarningsReport, MuteRule, MuteState, MutedAlert } from './types';
+import { toDateKey } from './market-clock';
+
+// Config and state paths
+const CONFIG_DIR = join(__dirname, '..', 'config');
+const DATA_DIR = join(__dirname, '..', 'data');
+export const MUTES_FILE = join(CONFIG_DIR, 'mutes.json');
+export const MUTE_STATE_FILE = join(DATA_DIR, 'mute-state.json');
+
+const MUTE_STATE_VERSION = 1;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// ============================================================================
+// Config
+// ============================================================================
+
+/**
+ * Check that a string is a real calendar date in YYYY-MM-DD format
+ */
+function isValidDateString(value: unknown): value is string {
+  if (typeof value !== 'string' || !DATE_PATTERN.test(value)) {
+    return false;
+  }
+  const date = new Date(`${value}T00:00:00Z`);
+  return !isNaN(date.getTime()) && date.toISOString().startsWith(value);
+}
+
+/**
+ * Validate one mute rule, adding problems to errors
+ */
+function validateRule(raw: any, index: number, sectionIds: string[], errors: string[]): MuteRule | null {
+  const where = `mutes[${index}]`;
+
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    errors.push(`${where}: must be an object with "ticker"`);
+    return null;
+  }
+  if (typeof raw.ticker !== 'string' || !raw.ticker.trim()) {
+    errors.push(`${where}: missing "ticker"`);
+    return null;
+  }
+
+  const label = `${where} (${raw.ticker})`;
+  const errorCount = errors.length;
+
+  if (raw.until !== undefined && !isValidDateString(raw.until)) {
+    errors.push(`${label}: invalid "until" date "${raw.until}" (expected YYYY-MM-DD)`);
+  }
+  if (raw.reports !== undefined) {
+    if (!Number.isInteger(raw.reports) || raw.reports < 1) {
+      errors.push(`${label}: "reports" must be a whole number >= 1`);
+    }
+    if (!isValidDateString(raw.since)) {
+      errors.push(`${label}: "reports" needs a "since" date (YYYY-MM-DD) to count reports from`);
+    }
+  } else if (raw.since !== undefined) {
+    errors.push(`${label}: "since" is only used with "reports"`);
+  }
+  if (raw.until !== undefined && raw.reports !== undefined) {
+    errors.push(`${label}: use either "until" or "reports", not both`);
+  }
+  if (raw.sections !== undefined) {
+    if (!Array.isArray(raw.sections) || raw.sections.length === 0) {
+      errors.push(`${label}: "sections" must be a non-empty array of section ids`);
+    } else {
+      for (const id of raw.sections) {
+        if (!sectionIds.includes(id)) {
+          errors.push(`${label}: unknown section "${id}" (sections: ${sectionIds.join(', ')})`);
+        }
+      }
+    }
+  }
+  if (raw.reason !== undefined && typeof raw.reason !== 'string') {
+    errors.push(`${label}: "reason" must be a string`);
+  }
+
+  if (errors.length > errorCount) {
+    return null;
+  }
+
+  return {
+    ticker: raw.ticker.trim().toUpperCase(),
+    ...(raw.until ? { until: raw.until } : {}),
+    ...(raw.reports ? { reports: raw.reports, since: raw.since } : {}),
+    ...(raw.sections ? { sections: raw.sections } : {}),
+    ...(raw.reason ? { reason: raw.reason } : {}),
+  };
+}
+
+/**
+ * Validate raw mutes JSON
+ *
+ * @param raw - Parsed JSON content
+ * @param sectionIds - Configured section ids (for "sections")
+ * @returns Validated rules
+ * @throws Error listing every problem found
+ */
+export function validateMutes(raw: unknown, sectionIds: string[]): MuteRule[] {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new Error(`Invalid mutes (${MUTES_FILE}): must be a JSON object with a "mutes" array`);
+  }
+
+  const entries = (raw as Record<string, unknown>).mutes ?? [];
+  const errors: string[] = [];
+  const rules: MuteRule[] = [];
+
+  if (!Array.isArray(entries)) {
+    errors.push('mutes: must be an array');
+  } else {
+    entries.forEach((entry, index) => {
+      const rule = validateRule(entry, index, sectionIds, errors);
+      if (rule) rules.push(rule);
+    });
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid mutes (${MUTES_FILE}):\n` + errors.map((e) => `  - ${e}`).join('\n'));
+  }
+
+  return rules;
+}
+
+/**
+ * Load mute rules from config/mutes.json
+ *
+ * @param sectionIds - Configured section ids (for "sections")
+ * @returns Validated rules (none if the file doesn't exist)
+ * @throws Error if the file is not valid JSON or fails validation
+ */
+export function loadMutes(sectionIds: string[]): MuteRule[] {
+  if (!existsSync(MUTES_FILE)) {
+    return [];
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(MUTES_FILE, 'utf-8'));
+  } catch (error: any) {
+    throw new Error(`Invalid JSON in mutes: ${error.message}`);
+  }
+
+  return validateMutes(raw, sectionIds);
+}
+
+// ============================================================================
+// State
+// ============================================================================
+
+/**
+ * Load the report dates used up by "reports" rules
+ *
+ * @param filePath - State file (default: data/mute-state.json)
+ */
+export function loadMuteState(filePath = MUTE_STATE_FILE): MuteState {
+  if (!existsSync(filePath)) {
+    return { version: MUTE_STATE_VERSION, consumed: {} };
+  }
+
+  let parsed: any;
+  try {
+    parsed = JSON.parse(readFileSync(filePath, 'utf-8'));
+  } catch (error: any) {
+    throw new Error(`Invalid JSON in ${filePath}: ${error.message}`);
+  }
+  if (!parsed || typeof parsed.consumed !== 'object' || parsed.consumed === null) {
+    throw new Error(`Invalid mute state in ${filePath}: expected {"version": ${MUTE_STATE_VERSION}, "consumed": {...}}`);
+  }
+
+  return { version: MUTE_STATE_VERSION, consumed: parsed.consumed };
+}
+
+/**
+ * Save the mute state (temp file + rename)
+ *
+ * @param state - State to save
+ * @param filePath - State file (default: data/mute-state.json)
+ */
+export function saveMuteState(state: MuteState, filePath = MUTE_STATE_FILE): void {
+  if (!existsSync(dirname(filePath))) {
+    mkdirSync(dirname(filePath), { recursive: true });
+  }
+
+  const tempPath = `${filePath}.${process.pid}.tmp`;
+  writeFileSync(tempPath, JSON.stringify(state, null, 2), 'utf-8');
+  renameSync(tempPath, filePath);
+}
+
+// ============================================================================
+// Applying Mutes
+// ============================================================================
+
+/**
+ * Key of a "reports" rule in the state
+ */
+function stateKey(rule: MuteRule): string {
+  return `${rule.ticker}|${rule.since}`;
+}
+
+/**
+ * Check whether a rule mutes a report today
+ *
+ * "reports" rules use up a slot for each new report date they mute.
+ */
+function isMutedBy(rule: MuteRule, report: EarningsReport, todayKey: string, consumed: Record<string, string[]>): boolean {
+  if (rule.until) {
+    return todayKey <= rule.until;
+  }
+
+  if (rule.reports) {
+    const dateKey = toDateKey(report.reportDate);
+    if (dateKey < rule.since!) return false;
+
+    const key = stateKey(rule);
+    const dates = consumed[key] ?? [];
+    if (dates.includes(dateKey)) return true;
+    if (dates.length >= rule.reports) return false;
+    consumed[key] = [...dates, dateKey];
+    return true;
+  }
+
+  return true;
+}
+
+/**
+ * Remove muted alerts from the sections
+ *
+ * Upcoming report dates used up by a "reports" rule that are no longer in
+ * the sheet (the report moved) are released first, so a date change doesn't
+ * use up an extra report.
+ *
+ * @param sections - Built sections
+ * @param rules - Mute rules
+ * @param state - Mute state from the previous run (not modified)
+ * @param reports - All reports of interest (to spot moved reports)
+ * @param today - Market date of the run
+ * @returns Sections without muted alerts, the muted alerts, and the new state
+ */
+export function applyMutes(
+  sections: AlertSection[],
+  rules: MuteRule[],
+  state: MuteState,
+  reports: EarningsReport[],
+  today: Date
+): { sections: AlertSection[]; muted: MutedAlert[]; state: MuteState } {
+  const todayKey = toDateKey(today);
+
+  // Release upcoming dates that are no longer in the sheet
+  const reportDates = new Set(reports.map((r) => `${r.ticker.toUpperCase()}|${toDateKey(r.reportDate)}`));
+  const consumed: Record<string, string[]> = {};
+  for (const [key, dates] of Object.entries(state.consumed)) {
+    const ticker = key.split('|')[0];
+    consumed[key] = dates.filter((date) => date < todayKey || reportDates.has(`${ticker}|${date}`));
+  }
+
+  const muted: MutedAlert[] = [];
+  const filtered = sections.map((section) => {
+    const alerts = section.alerts.filter((alert) => {
+      const ticker = alert.report.ticker.toUpperCase();
+      const rule = rules.find(
+        (r) =>
+          r.ticker === ticker &&
+          (!r.sections || r.sections.includes(section.definition.id)) &&
+          isMutedBy(r, alert.report, todayKey, consumed)
+      );
+      if (rule) {
+        muted.push({ alert, sectionId: section.definition.id, rule });
+      }
+      return !rule;
+    });
+    return { ...section, alerts };
+  });
+
+  return { sections: filtered, muted, state: { version: MUTE_STATE_VERSION, consumed } };
+}
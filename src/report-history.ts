@@ -0,0 +1,205 @@
+/**
+ * Report History for Earnings Alerts
+ *
+ * Persists the last-seen report date and time per ticker in
+ * data/report-history.json, so each run can tell when FactSet has moved a
+ * report (e.g. Thursday -> Tuesday, or after-close -> before-open).
+ *
+ * Only upcoming reports are compared: once a report date has passed, the
+ * next quarter's date replacing it is not a change.
+ *
+ * Holdings whose time goes from unknown to a confirmed session are split out
+ * as confirmations, with the urgent alert date re-evaluated: unknown times
+ * are alerted a day early, so a confirmed post-market time moves the alert.
+ */
+
+import { readFileSync, writeFileSync, existsSync, mkdirSync, renameSync } from 'fs';
+import { join, dirname } from 'path';
+import { EarningsReport, ReportChange, ReportHistory, SeenReport, TimeConfirmation } from './types';
+import { determineAlertDate } from './alerts';
+import { now, toDateKey, parseDateKey } from './market-clock';
+
+// Path to history file
+const DATA_DIR = join(__dirname, '..', 'data');
+export const REPORT_HISTORY_FILE = join(DATA_DIR, 'report-history.json');
+
+const HISTORY_VERSION = 1;
+
+/**
+ * Load the report history (empty if there is none yet)
+ *
+ * @param filePath - History file (default: data/report-history.json)
+ * @throws Error if the file is invalid or from a newer version
+ */
+export function loadReportHistory(filePath = REPORT_HISTORY_FILE): ReportHistory {
+  if (!existsSync(filePath)) {
+    return { version: HISTORY_VERSION, updatedAt: '', tickers: {} };
+  }
+
+  let parsed: any;
+  try {
+    parsed = JSON.parse(readFileSync(filePath, 'utf-8'));
+  } catch (error: any) {
+    throw new Error(`Invalid JSON in ${filePath}: ${error.message}`);
+  }
+
+  if (!parsed || typeof parsed !== 'object' || !parsed.tickers || typeof parsed.tickers !== 'object') {
+    throw new Error(`Invalid report history in ${filePath}: expected {"version": ${HISTORY_VERSION}, "tickers": {...}}`);
+  }
+  if (parsed.version > HISTORY_VERSION) {
+    throw new Error(`Report history in ${filePath} is version ${parsed.version}; this version reads up to ${HISTORY_VERSION}`);
+  }
+
+  return { version: HISTORY_VERSION, updatedAt: parsed.updatedAt ?? '', tickers: parsed.tickers };
+}
+
+/**
+ * Save the report history (temp file + rename)
+ *
+ * @param history - History to save
+ * @param filePath - History file (default: data/report-history.json)
+ */
+export function saveReportHistory(history: ReportHistory, filePath = REPORT_HISTORY_FILE): void {
+  if (!existsSync(dirname(filePath))) {
+    mkdirSync(dirname(filePath), { recursive: true });
+  }
+
+  const tempPath = `${filePath}.${process.pid}.tmp`;
+  writeFileSync(tempPath, JSON.stringify(history, null, 2), 'utf-8');
+  renameSync(tempPath, filePath);
+}
+
+/**
+ * Pick each ticker's next report (earliest on or after today)
+ */
+function getNextReports(reports: EarningsReport[], today: Date): Map<string, EarningsReport> {
+  const todayKey = toDateKey(today);
+  const next = new Map<string, EarningsReport>();
+
+  for (const report of reports) {
+    if (toDateKey(report.reportDate) < todayKey) continue;
+    const ticker = report.ticker.toUpperCase();
+    const current = next.get(ticker);
+    if (!current || report.reportDate < current.reportDate) {
+      next.set(ticker, report);
+    }
+  }
+
+  return next;
+}
+
+/**
+ * Convert a report to its history entry
+ */
+function toSeenReport(report: EarningsReport): SeenReport {
+  return {
+    reportDate: toDateKey(report.reportDate),
+    timeOfDay: report.timeOfDay,
+    ...(report.reportTime ? { reportTime: report.reportTime } : {}),
+    ...(report.rawTimeString ? { rawTimeString: report.rawTimeString } : {}),
+    seenAt: now().toISOString(),
+  };
+}
+
+/**
+ * Compare this run's reports with the history
+ *
+ * A change is an upcoming report (as last seen) whose next report now has a
+ * different date or time of day.
+ *
+ * @param history - Report history from the previous run
+ * @param reports - This run's reports (filtered to tickers of interest)
+ * @param holdingsTickers - Holdings tickers (everything else is watchlist)
+ * @param today - Market date of the run
+ * @param accountsByTicker - Accounts per holding (for account-scoped recipients)
+ * @returns Changes, holdings first, then by new report date
+ */
+export function detectReportChanges(
+  history: ReportHistory,
+  reports: EarningsReport[],
+  holdingsTickers: string[],
+  today: Date,
+  accountsByTicker: Record<string, string[]> = {}
+): ReportChange[] {
+  const todayKey = toDateKey(today);
+  const holdingsSet = new Set(holdingsTickers.map((t) => t.toUpperCase()));
+  const changes: ReportChange[] = [];
+
+  for (const [ticker, report] of getNextReports(reports, today)) {
+    const previous = history.tickers[ticker];
+    if (!previous || previous.reportDate < todayKey) continue;
+
+    const dateChanged = previous.reportDate !== toDateKey(report.reportDate);
+    const timeChanged = previous.timeOfDay !== report.timeOfDay;
+    if (dateChanged || timeChanged) {
+      const holding = holdingsSet.has(ticker);
+      changes.push({
+        report,
+        previous,
+        audience: holding ? 'holdings' : 'watchlist',
+        ...(holding && accountsByTicker[ticker] ? { accounts: accountsByTicker[ticker] } : {}),
+        dateChanged,
+        timeChanged,
+      });
+    }
+  }
+
+  return changes.sort(
+    (a, b) =>
+      Number(a.audience !== 'holdings') - Number(b.audience !== 'holdings') ||
+      a.report.reportDate.getTime() - b.report.reportDate.getTime()
+  );
+}
+
+/**
+ * Split holdings whose time went from unknown to confirmed out of the changes
+ *
+ * @param changes - Changes from detectReportChanges
+ * @returns Confirmations (with old and new urgent alert dates) and the other changes
+ */
+export function splitTimeConfirmations(changes: ReportChange[]): {
+  confirmations: TimeConfirmation[];
+  changes: ReportChange[];
+} {
+  const confirmations: TimeConfirmation[] = [];
+  const others: ReportChange[] = [];
+
+  for (const change of changes) {
+    const { report, previous } = change;
+    if (change.audience !== 'holdings' || previous.timeOfDay !== 'unknown' || report.timeOfDay === 'unknown') {
+      others.push(change);
+      continue;
+    }
+
+    const previousReport: EarningsReport = {
+      ...report,
+      reportDate: parseDateKey(previous.reportDate)!,
+      timeOfDay: previous.timeOfDay,
+    };
+    confirmations.push({
+      change,
+      previousAlertDate: determineAlertDate(previousReport),
+      alertDate: determineAlertDate(report),
+    });
+  }
+
+  return { confirmations, changes: others };
+}
+
+/**
+ * Record this run's reports in the history
+ *
+ * Tickers not in this run's reports keep their last entry.
+ *
+ * @param history - Report history from the previous run
+ * @param reports - This run's reports (filtered to tickers of interest)
+ * @param today - Market date of the run
+ * @returns Updated history
+ */
+export function updateReportHistory(history: ReportHistory, reports: EarningsReport[], today: Date): ReportHistory {
+  const tickers = { ...history.tickers };
+  for (const [ticker, report] of getNextReports(reports, today)) {
+    tickers[ticker] = toSeenReport(report);
+  }
+  return { version: HISTORY_VERSION, updatedAt: now().toISOString(), tickers };
+}
@@ -0,0 +1,705 @@
+/**
+ * Section Builder for Earnings Alerts
+ *
+ * Splits earnings reports into the email sections for a given market date.
+ * Pure function of its inputs, so the daily check, --as-of replays and
+ * simulations all compute sections the same way.
+ *
+ * Sections are defined in config/settings.json ("sections", loaded by
+ * settings.ts). Each has an audience (holdings, watchlist or a tag), a
+ * window of trading-day offset plus session, a title, colours, an urgency
+ * flag and a subject fragment. Window days can refer to the holdings alert
+ * lead times ("alertDaysBefore.min" / "alertDaysBefore.max").
+ * Lead times can be overridden per ticker or tag ("leadTimes", or a sheet
+ * tab): the furthest-reaching section a ticker is in then ends on that
+ * trading day instead, e.g. top-10 holdings in "upcoming" 10 days ahead.
+ * Without a "sections" key the default five are used:
+ * 1. Holdings - pre-market today
+ * 2. Holdings - before next open (intraday/post-market today + pre-market day 1)
+ * 3. Holdings - 2-5 days out (intraday day 1 through pre-market day 5)
+ * 4. Watchlist - pre-market today
+ * 5. Watchlist - next 2 days (intraday today through pre-market day 2)
+ *
+ * Also looks back: holdings that reported since the previous email (see
+ * findReportedSinceLastEmail) for the recap section.
+ *
+ * Holdings weights from the custodian CSV label the alerts (see
+ * applyHoldingWeights) and give the share of the portfolio reporting this
+ * week (see summarizePortfolioWeek).
+ */
+
+import {
+  EarningsReport,
+  AlertDue,
+  LeadTimeOverride,
+  PortfolioWeekSummary,
+  AlertSection,
+  Exchange,
+  SectionConfig,
+  SectionDefinition,
+  SessionPoint,
+} from './types';
+import { tradingDaysUntil, getNextTradingDay, getPreviousTradingDay } from './calendar';
+import { toDateKey, formatCalendarDate } from './market-clock';
+
+// ============================================================================
+// Section Definitions
+// ============================================================================
+
+/**
+ * Default sections, used when settings.json has no "sections" key
+ * (raw form: window days may still be alertDaysBefore references)
+ */
+export const DEFAULT_SECTIONS = [
+  {
+    id: 'holdingsPremarket',
+    title: '🚨 HOLDINGS - PRE-MARKET',
+    audience: 'holdings',
+    window: { from: { day: 0, session: 'premarket' }, to: { day: 0, session: 'premarket' } },
+    color: '#d32f2f',
+    colorEnd: '#b71c1c',
+    urgent: true,
+    subject: '{n} holding{s} imminent',
+  },
+  {
+    id: 'holdingsBeforeNextOpen',
+    title: '🔔 HOLDINGS - BEFORE NEXT OPEN',
+    audience: 'holdings',
+    window: { from: { day: 0, session: 'intraday' }, to: { day: 'alertDaysBefore.min', session: 'premarket' } },
+    color: '#c41e3a',
+    colorEnd: '#8b0000',
+    urgent: true,
+    subject: '{n} holding{s} imminent',
+  },
+  {
+    id: 'holdingsUpcoming',
+    title: '📅 HOLDINGS - 2-5 DAYS OUT',
+    audience: 'holdings',
+    window: {
+      from: { day: 'alertDaysBefore.min', session: 'intraday' },
+      to: { day: 'alertDaysBefore.max', session: 'premarket' },
+    },
+    color: '#d4a017',
+    colorEnd: '#b8860b',
+    urgent: false,
+    subject: '{n} holding{s} upcoming',
+  },
+  {
+    id: 'watchlistPremarket',
+    title: '🚨 WATCHLIST - PRE-MARKET',
+    audience: 'watchlist',
+    window: { from: { day: 0, session: 'premarket' }, to: { day: 0, session: 'premarket' } },
+    color: '#1976d2',
+    colorEnd: '#1565c0',
+    urgent: true,
+    subject: '{n} watchlist pre-mkt',
+  },
+  {
+    id: 'watchlistUpcoming',
+    title: '📅 WATCHLIST - NEXT 2 DAYS',
+    audience: 'watchlist',
+    window: { from: { day: 0, session: 'intraday' }, to: { day: 2, session: 'premarket' } },
+    color: '#5c6bc0',
+    colorEnd: '#3f51b5',
+    urgent: false,
+    subject: '{n} watchlist upcoming',
+  },
+];
+
+// Window day references to the holdings alert lead times
+const LEAD_TIME_REFERENCES = ['alertDaysBefore.min', 'alertDaysBefore.max'];
+
+// Sessions in timeline order within a trading day
+const SESSIONS: SessionPoint['session'][] = ['premarket', 'intraday', 'postmarket'];
+
+/**
+ * Position of a session point on the timeline (pre-market, intraday, post-market)
+ */
+function sessionPosition(point: SessionPoint): number {
+  return point.day * SESSIONS.length + SESSIONS.indexOf(point.session);
+}
+
+/**
+ * Check for a session name ("premarket", "intraday" or "postmarket")
+ */
+function isSession(value: unknown): value is SessionPoint['session'] {
+  return (SESSIONS as readonly unknown[]).includes(value);
+}
+
+/**
+ * Check for a hex colour ("#rgb" or "#rrggbb")
+ */
+function isHexColor(value: unknown): boolean {
+  return typeof value === 'string' && /^#[0-9a-fA-F]{3}([0-9a-fA-F]{3})?$/.test(value);
+}
+
+/**
+ * Validate a session point, adding problems to errors
+ *
+ * @returns Session point with lead-time references resolved
+ */
+function validateSessionPoint(
+  raw: any,
+  label: string,
+  alertDaysBefore: number[],
+  errors: string[]
+): SessionPoint | null {
+  if (!raw || typeof raw !== 'object') {
+    errors.push(`${label}: must be an object like {"day": 0, "session": "premarket"}`);
+    return null;
+  }
+
+  let day: number | null = null;
+  if (Number.isInteger(raw.day) && raw.day >= 0) {
+    day = raw.day;
+  } else if (LEAD_TIME_REFERENCES.includes(raw.day)) {
+    day = raw.day === 'alertDaysBefore.min' ? Math.min(...alertDaysBefore) : Math.max(...alertDaysBefore);
+  } else {
+    errors.push(`${label}.day: must be a whole number of trading days >= 0, "alertDaysBefore.min" or "alertDaysBefore.max"`);
+  }
+
+  if (!isSession(raw.session)) {
+    errors.push(`${label}.session: must be "premarket", "intraday" or "postmarket"`);
+    return null;
+  }
+  return day === null ? null : { day, session: raw.session };
+}
+
+/**
+ * Validate one lead time override, adding problems to errors
+ */
+function validateLeadTime(
+  raw: any,
+  label: string,
+  tags: Record<string, string[]>,
+  errors: string[]
+): LeadTimeOverride | null {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    errors.push(`${label}: must be an object like {"tag": "top10", "days": 10}`);
+    return null;
+  }
+
+  const errorCount = errors.length;
+  const hasTicker = typeof raw.ticker === 'string' && raw.ticker.trim() !== '';
+  const hasTag = typeof raw.tag === 'string' && raw.tag.trim() !== '';
+  if (hasTicker === hasTag) {
+    errors.push(`${label}: needs exactly one of "ticker" or "tag"`);
+  } else if (hasTag && !(raw.tag in tags)) {
+    errors.push(`${label}.tag: "${raw.tag}" is not defined in "tags"`);
+  }
+
+  if (!Number.isInteger(raw.days) || raw.days < 0) {
+    errors.push(`${label}.days: must be a whole number of trading days >= 0`);
+  }
+
+  const sessions = raw.sessions ?? SESSIONS;
+  if (!Array.isArray(sessions) || sessions.length === 0 || !sessions.every(isSession)) {
+    errors.push(`${label}.sessions: must be a non-empty array of "premarket", "intraday" and/or "postmarket"`);
+  }
+
+  if (errors.length > errorCount) {
+    return null;
+  }
+
+  return {
+    ...(hasTicker ? { ticker: raw.ticker.trim().toUpperCase() } : { tag: raw.tag }),
+    days: raw.days,
+    sessions: SESSIONS.filter((session) => sessions.includes(session)),
+  };
+}
+
+/**
+ * Validate raw lead time overrides, adding problems to errors
+ *
+ * @param rawLeadTimes - Array of {ticker | tag, days, sessions?}
+ * @param tags - Validated tags
+ * @param label - Prefix for problems (setting path or sheet tab)
+ * @param errors - Problems found are appended here
+ * @returns Overrides, ticker overrides first
+ */
+export function validateLeadTimes(
+  rawLeadTimes: unknown,
+  tags: Record<string, string[]>,
+  label: string,
+  errors: string[]
+): LeadTimeOverride[] {
+  if (!Array.isArray(rawLeadTimes)) {
+    errors.push(`${label}: must be an array like [{"tag": "top10", "days": 10}]`);
+    return [];
+  }
+
+  const overrides = rawLeadTimes.map((raw, index) => validateLeadTime(raw, `${label}[${index}]`, tags, errors));
+  return tickerOverridesFirst(overrides);
+}
+
+/**
+ * Drop invalid overrides and put ticker overrides first (a ticker's own
+ * override beats any tag it's in)
+ */
+function tickerOverridesFirst(overrides: (LeadTimeOverride | null)[]): LeadTimeOverride[] {
+  const valid = overrides.filter((override): override is LeadTimeOverride => override !== null);
+  return [...valid.filter((o) => o.ticker), ...valid.filter((o) => o.tag)];
+}
+
+/**
+ * Read lead time overrides from sheet tab rows
+ *
+ * Columns: Ticker, Tag, Days, Sessions (comma-separated, blank = all). The
+ * first row is a header.
+ *
+ * @param rows - Raw tab rows, including the header
+ * @param tags - Validated tags
+ * @param tab - Tab name (for error messages)
+ * @returns Overrides, ticker overrides first
+ * @throws Error listing every bad row
+ */
+function leadTimesFromSheetRows(
+  rows: string[][],
+  tags: Record<string, string[]>,
+  tab: string
+): LeadTimeOverride[] {
+  const errors: string[] = [];
+  const overrides = rows.slice(1).map((row, index) => {
+    if (!row.some((cell) => cell?.trim())) return null;
+
+    const [ticker = '', tag = '', days = '', sessions = ''] = row;
+    const raw = {
+      ...(ticker.trim() ? { ticker } : {}),
+      ...(tag.trim() ? { tag: tag.trim() } : {}),
+      days: /^\d+$/.test(days.trim()) ? Number(days.trim()) : days,
+      ...(sessions.trim() ? { sessions: sessions.split(',').map((s) => s.trim().toLowerCase()) } : {}),
+    };
+    return validateLeadTime(raw, `row ${index + 2}`, tags, errors);
+  });
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid lead times in sheet tab "${tab}":\n  ${errors.join('\n  ')}`);
+  }
+  return tickerOverridesFirst(overrides);
+}
+
+/**
+ * Add the lead times tab's overrides to the configured ones
+ *
+ * Sheet rows come before settings.json entries, so for the same ticker (or
+ * tag) the sheet wins.
+ *
+ * @param config - Section config (settings)
+ * @param rows - Raw lead times tab rows, including the header
+ * @param tab - Tab name (for error messages)
+ * @returns Config with the combined overrides
+ * @throws Error listing every bad row
+ */
+export function withSheetLeadTimes<T extends SectionConfig>(config: T, rows: string[][], tab: string): T {
+  const fromSheet = leadTimesFromSheetRows(rows, config.tags, tab);
+  return { ...config, leadTimes: tickerOverridesFirst([...fromSheet, ...config.leadTimes]) };
+}
+
+/**
+ * Validate raw section settings
+ *
+ * Adds every problem to errors (prefixed with the setting path) rather than
+ * throwing, so the settings loader can report all problems at once.
+ *
+ * @param rawSections - Value of "sections" in settings.json
+ * @param rawTags - Value of "tags" in settings.json
+ * @param rawLeadTimes - Value of "leadTimes" in settings.json
+ * @param alertDaysBefore - Validated holdings alert lead times
+ * @param errors - Problems found are appended here
+ * @returns Section config (only meaningful if no errors were added)
+ */
+export function validateSectionConfig(
+  rawSections: unknown,
+  rawTags: unknown,
+  rawLeadTimes: unknown,
+  alertDaysBefore: number[],
+  errors: string[]
+): SectionConfig {
+  // Tags: tag name -> tickers
+  const tags: Record<string, string[]> = {};
+  if (!rawTags || typeof rawTags !== 'object' || Array.isArray(rawTags)) {
+    errors.push('tags: must be an object of tag name -> array of tickers');
+  } else {
+    for (const [name, tickers] of Object.entries(rawTags as Record<string, unknown>)) {
+      if (!Array.isArray(tickers) || !tickers.every((t) => typeof t === 'string')) {
+        errors.push(`tags.${name}: must be an array of tickers`);
+        continue;
+      }
+      tags[name] = tickers.map((t: string) => t.trim().toUpperCase());
+    }
+  }
+
+  const leadTimes = validateLeadTimes(rawLeadTimes, tags, 'leadTimes', errors);
+
+  if (!Array.isArray(rawSections) || rawSections.length === 0) {
+    errors.push('sections: must be a non-empty array');
+    return { sections: [], tags, leadTimes };
+  }
+
+  const seenIds = new Set<string>();
+  const sections: SectionDefinition[] = rawSections.map((raw: any, index: number) => {
+    const label = `sections[${index}]${raw?.id ? ` (${raw.id})` : ''}`;
+    if (!raw || typeof raw !== 'object') {
+      errors.push(`${label}: must be an object`);
+      return raw;
+    }
+
+    if (typeof raw.id !== 'string' || raw.id.trim() === '') {
+      errors.push(`${label}.id: required`);
+    } else if (seenIds.has(raw.id)) {
+      errors.push(`${label}.id: duplicate id "${raw.id}"`);
+    } else {
+      seenIds.add(raw.id);
+    }
+
+    if (typeof raw.title !== 'string' || raw.title.trim() === '') {
+      errors.push(`${label}.title: required`);
+    }
+
+    if (!['holdings', 'watchlist', 'tag'].includes(raw.audience)) {
+      errors.push(`${label}.audience: must be "holdings", "watchlist" or "tag"`);
+    } else if (raw.audience === 'tag' && !(raw.tag in tags)) {
+      errors.push(`${label}.tag: "${raw.tag}" is not defined in "tags"`);
+    }
+
+    if (raw.accounts !== undefined) {
+      const validAccounts =
+        Array.isArray(raw.accounts) &&
+        raw.accounts.length > 0 &&
+        raw.accounts.every((a: unknown) => typeof a === 'string' && a.trim() !== '');
+      if (!validAccounts) {
+        errors.push(`${label}.accounts: must be a non-empty array of account names`);
+      } else if (raw.audience === 'watchlist') {
+        errors.push(`${label}.accounts: watchlist names aren't held in any account`);
+      }
+    }
+
+    let window: SectionDefinition['window'] = raw.window;
+    if (!raw.window || typeof raw.window !== 'object') {
+      errors.push(`${label}.window: must have "from" and "to"`);
+    } else {
+      const from = validateSessionPoint(raw.window.from, `${label}.window.from`, alertDaysBefore, errors);
+      const to = validateSessionPoint(raw.window.to, `${label}.window.to`, alertDaysBefore, errors);
+      if (from && to) {
+        window = { from, to };
+        if (sessionPosition(from) > sessionPosition(to)) {
+          errors.push(`${label}.window: "from" is after "to"`);
+        }
+      }
+    }
+
+    if (!isHexColor(raw.color)) {
+      errors.push(`${label}.color: must be a hex colour like "#d32f2f"`);
+    }
+    if (raw.colorEnd !== undefined && !isHexColor(raw.colorEnd)) {
+      errors.push(`${label}.colorEnd: must be a hex colour like "#b71c1c"`);
+    }
+
+    if (raw.urgent !== undefined && typeof raw.urgent !== 'boolean') {
+      errors.push(`${label}.urgent: must be true or false`);
+    }
+
+    if (typeof raw.subject !== 'string' || !raw.subject.includes('{n}')) {
+      errors.push(`${label}.subject: must be a string containing {n}, e.g. "{n} holding{s} upcoming"`);
+    }
+
+    return {
+      id: raw.id,
+      title: raw.title,
+      audience: raw.audience,
+      ...(raw.audience === 'tag' ? { tag: raw.tag } : {}),
+      ...(raw.accounts ? { accounts: raw.accounts.map((a: string) => a.trim()) } : {}),
+      window,
+      color: raw.color,
+      ...(raw.colorEnd ? { colorEnd: raw.colorEnd } : {}),
+      urgent: raw.urgent ?? false,
+      subject: raw.subject,
+    };
+  });
+
+  return { sections, tags, leadTimes };
+}
+
+// ============================================================================
+// Section Builder
+// ============================================================================
+
+/**
+ * Filter earnings reports to holdings and watchlist tickers
+ *
+ * If no tickers of interest are known at all, every report is kept.
+ *
+ * @param reports - All earnings reports
+ * @param holdingsTickers - Holdings tickers
+ * @param watchlistTickers - Watchlist tickers
+ * @returns Reports for tickers of interest
+ */
+export function filterReportsOfInterest(
+  reports: EarningsReport[],
+  holdingsTickers: string[],
+  watchlistTickers: string[]
+): EarningsReport[] {
+  // Combine tickers for filtering (holdings always included)
+  const allTickersOfInterest = new Set([...holdingsTickers, ...watchlistTickers]);
+
+  return allTickersOfInterest.size > 0
+    ? reports.filter((r) => allTickersOfInterest.has(r.ticker.toUpperCase()))
+    : reports;
+}
+
+/**
+ * Count the alerts across all sections
+ */
+export function countSectionAlerts(sections: AlertSection[]): number {
+  return sections.reduce((total, section) => total + section.alerts.length, 0);
+}
+
+/**
+ * Build the configured alert sections for a market date
+ *
+ * @param reports - Earnings reports (already filtered to tickers of interest)
+ * @param holdingsTickers - Holdings tickers (everything else is watchlist)
+ * @param today - Market calendar date the email is for
+ * @param config - Section definitions and tags (see loadSectionConfig)
+ * @param accountsByTicker - Accounts holding each ticker (see getAccountsByTicker)
+ * @returns Alert sections, in configured order
+ */
+export function buildAlertSections(
+  reports: EarningsReport[],
+  holdingsTickers: string[],
+  today: Date,
+  config: SectionConfig,
+  accountsByTicker: Record<string, string[]> = {}
+): AlertSection[] {
+  const holdingsSet = new Set(holdingsTickers.map((t) => t.toUpperCase()));
+  const todayStr = toDateKey(today);
+  const maxDay = Math.max(
+    ...config.sections.map((s) => s.window.to.day),
+    ...config.leadTimes.map((o) => o.days)
+  );
+
+  // Next trading days (day 1..maxDay) per exchange calendar. The email goes out
+  // on US trading days, but each report's window is counted on its own exchange.
+  const upcomingDaysByExchange = new Map<Exchange, string[]>();
+  function getUpcomingDayStrs(exchange: Exchange): string[] {
+    let dayStrs = upcomingDaysByExchange.get(exchange);
+    if (!dayStrs) {
+      dayStrs = [];
+      let day = today;
+      for (let i = 0; i < maxDay; i++) {
+        day = getNextTradingDay(day, exchange);
+        dayStrs.push(toDateKey(day));
+      }
+      upcomingDaysByExchange.set(exchange, dayStrs);
+    }
+    return dayStrs;
+  }
+
+  // Helper to create AlertDue from report
+  function createAlertDue(report: EarningsReport): AlertDue {
+    const daysUntil = tradingDaysUntil(today, report.reportDate, report.exchange);
+    const accounts = accountsByTicker[report.ticker.toUpperCase()];
+    return {
+      report,
+      alertDate: today,
+      reportDateFormatted: formatCalendarDate(report.reportDate, 'EEE, MMM d'),
+      daysUntilReport: daysUntil,
+      ...(accounts ? { accounts } : {}),
+    };
+  }
+
+  // Helper to get the report's trading-day offset: 0 = today, 1..maxDay, null = later
+  function getDayOffset(report: EarningsReport): number | null {
+    const dateStr = toDateKey(report.reportDate);
+    if (dateStr === todayStr) return 0;
+    const index = getUpcomingDayStrs(report.exchange ?? 'NYSE').indexOf(dateStr);
+    return index === -1 ? null : index + 1;
+  }
+
+  // Position on the session timeline; 'unknown' time counts as premarket
+  // (safer: alert earlier rather than miss)
+  function getReportPosition(report: EarningsReport): number | null {
+    const day = getDayOffset(report);
+    if (day === null) return null;
+    return sessionPosition({ day, session: report.timeOfDay === 'unknown' ? 'premarket' : report.timeOfDay });
+  }
+
+  function isInAudience(report: EarningsReport, definition: SectionDefinition): boolean {
+    const ticker = report.ticker.toUpperCase();
+    if (definition.accounts && !(accountsByTicker[ticker] ?? []).some((a) => definition.accounts!.includes(a))) {
+      return false;
+    }
+    switch (definition.audience) {
+      case 'holdings':
+        return holdingsSet.has(ticker);
+      case 'watchlist':
+        return !holdingsSet.has(ticker);
+      case 'tag':
+        return (config.tags[definition.tag ?? ''] ?? []).includes(ticker);
+    }
+  }
+
+  // Lead time override for a report: its ticker's own, else its first tag's
+  function findLeadTime(report: EarningsReport): LeadTimeOverride | undefined {
+    const ticker = report.ticker.toUpperCase();
+    const session = report.timeOfDay === 'unknown' ? 'premarket' : report.timeOfDay;
+    return config.leadTimes.find(
+      (o) =>
+        o.sessions.includes(session) &&
+        (o.ticker === ticker || (o.tag !== undefined && (config.tags[o.tag] ?? []).includes(ticker)))
+    );
+  }
+
+  // End of a section's window for a report. An override moves the end day of
+  // the furthest-reaching section(s) the ticker is in; the others keep theirs.
+  function getWindowEnd(report: EarningsReport, definition: SectionDefinition): number {
+    const to = sessionPosition(definition.window.to);
+    const override = findLeadTime(report);
+    if (!override) return to;
+
+    const furthest = Math.max(
+      ...config.sections.filter((s) => isInAudience(report, s)).map((s) => sessionPosition(s.window.to))
+    );
+    return to === furthest ? sessionPosition({ day: override.days, session: definition.window.to.session }) : to;
+  }
+
+  return config.sections.map((definition) => {
+    const from = sessionPosition(definition.window.from);
+    const alerts = reports
+      .filter((r) => {
+        if (!isInAudience(r, definition)) return false;
+        const position = getReportPosition(r);
+        return position !== null && position >= from && position <= getWindowEnd(r, definition);
+      })
+      .map(createAlertDue);
+    return { definition, alerts };
+  });
+}
+
+/**
+ * Find holdings that reported since the previous email
+ *
+ * The previous email went out before the open on the previous US trading
+ * day, so this covers that day's intraday and post-market reports, anything
+ * dated between then and today, and today's pre-market reports. Unknown
+ * times are left out: they may not have reported yet.
+ *
+ * @param reports - Earnings reports (already filtered to tickers of interest)
+ * @param holdingsTickers - Holdings tickers
+ * @param today - Market calendar date the email is for
+ * @param accountsByTicker - Accounts holding each ticker (see getAccountsByTicker)
+ * @returns Recap alerts (daysUntilReport is 0 or negative), oldest first
+ */
+export function findReportedSinceLastEmail(
+  reports: EarningsReport[],
+  holdingsTickers: string[],
+  today: Date,
+  accountsByTicker: Record<string, string[]> = {}
+): AlertDue[] {
+  const holdingsSet = new Set(holdingsTickers.map((t) => t.toUpperCase()));
+  const todayStr = toDateKey(today);
+  const previousStr = toDateKey(getPreviousTradingDay(today));
+
+  return reports
+    .filter((report) => {
+      if (!holdingsSet.has(report.ticker.toUpperCase()) || report.timeOfDay === 'unknown') {
+        return false;
+      }
+      const dateStr = toDateKey(report.reportDate);
+      if (dateStr === todayStr) return report.timeOfDay === 'premarket';
+      if (dateStr === previousStr) return report.timeOfDay !== 'premarket';
+      return dateStr > previousStr && dateStr < todayStr;
+    })
+    .sort((a, b) => a.reportDate.getTime() - b.reportDate.getTime())
+    .map((report) => {
+      const accounts = accountsByTicker[report.ticker.toUpperCase()];
+      return {
+        report,
+        alertDate: today,
+        reportDateFormatted: formatCalendarDate(report.reportDate, 'EEE, MMM d'),
+        daysUntilReport: tradingDaysUntil(today, report.reportDate),
+        ...(accounts ? { accounts } : {}),
+      };
+    });
+}
+
+/**
+ * Label holdings alerts with their portfolio weight
+ *
+ * The email sorts sections with weights by weight, largest first.
+ *
+ * @param sections - Built sections
+ * @param weights - Ticker -> percent of the portfolio (see getPortfolioWeights)
+ * @returns Sections with weight set on alerts for weighted tickers
+ */
+export function applyHoldingWeights(sections: AlertSection[], weights: Record<string, number>): AlertSection[] {
+  return sections.map((section) => ({
+    ...section,
+    alerts: section.alerts.map((alert) => {
+      const weight = weights[alert.report.ticker.toUpperCase()];
+      return weight === undefined ? alert : { ...alert, weight };
+    }),
+  }));
+}
+
+/**
+ * Share of the portfolio reporting in the week (Monday-Sunday) containing today
+ *
+ * Counts every holding with a report dated in the week, including days
+ * already past.
+ *
+ * @param reports - Earnings reports (already filtered to tickers of interest)
+ * @param weights - Ticker -> percent of the portfolio (see getPortfolioWeights)
+ * @param today - Market calendar date the email is for
+ * @returns Summary, or null without weights
+ */
+export function summarizePortfolioWeek(
+  reports: EarningsReport[],
+  weights: Record<string, number>,
+  today: Date
+): PortfolioWeekSummary | null {
+  if (Object.keys(weights).length === 0) {
+    return null;
+  }
+
+  const monday = new Date(today);
+  monday.setUTCDate(today.getUTCDate() - ((today.getUTCDay() + 6) % 7));
+  const sunday = new Date(monday);
+  sunday.setUTCDate(monday.getUTCDate() + 6);
+
+  const tickers = new Set(
+    reports
+      .filter((r) => r.reportDate >= monday && r.reportDate <= sunday)
+      .map((r) => r.ticker.toUpperCase())
+      .filter((ticker) => ticker in weights)
+  );
+
+  return {
+    weight: [...tickers].reduce((sum, ticker) => sum + weights[ticker], 0),
+    holdings: tickers.size,
+  };
+}
+
+/**
+ * Check whether an item belongs to one set of accounts (account-scoped
+ * recipients)
+ *
+ * Items without accounts (watchlist names, or a holdings CSV without an
+ * Account column) belong to every set.
+ *
+ * @param itemAccounts - Accounts holding the item's ticker
+ * @param accounts - Accounts / funds of the recipients
+ */
+export function isInAccountScope(itemAccounts: string[] | undefined, accounts: string[]): boolean {
+  return !itemAccounts || itemAccounts.some((a) => accounts.includes(a));
+}
+
+/**
+ * Keep only the items for one set of accounts (see isInAccountScope)
+ *
+ * @param items - Alerts (built sections' alerts or the recap) or date/time changes
+ * @param accounts - Accounts / funds to keep
+ */
+export function scopeToAccounts<T extends { accounts?: string[] }>(items: T[], accounts: string[]): T[] {
+  return items.filter((item) => isInAccountScope(item.accounts, accounts));
+}
@@ -0,0 +1,441 @@
+/**
+ * Sent-Alert Store for Earnings Alerts
+ *
+ * Records which urgent alerts have been emailed so a manual re-run or a
+ * double-triggered workflow doesn't send them again. Three backends share
+ * one interface:
+ * - json: data/sent-alerts.json (local runs; see alert-ledger.ts)
+ * - sheet: a tab in a Google Sheet (survives GitHub Actions runs)
+ * - sqlite: data/sent-alerts.sqlite (restored/saved via the Actions cache)
+ *
+ * The backend is chosen by "sentAlertStore" in config/settings.json, or the
+ * SENT_ALERT_STORE env var.
+ */
+
+import { existsSync, mkdirSync } from 'fs';
+import { join, dirname, isAbsolute } from 'path';
+import type Database from 'better-sqlite3';
+import { AlertSection, AlertDue, SentAlert, Settings, EmailResult } from './types';
+import { SENT_ALERTS_FILE, loadLedger, appendToLedger, pruneLedger } from './alert-ledger';
+import { getSheetsService } from './google-auth';
+import { getEarningsSheetId, listSheetTabs } from './sheets';
+import { isInAccountScope } from './sections';
+import { now, toDateKey, toMarketDate } from './market-clock';
+
+// Default store locations
+const ROOT_DIR = join(__dirname, '..');
+const DEFAULT_SQLITE_PATH = join(ROOT_DIR, 'data', 'sent-alerts.sqlite');
+const DEFAULT_SHEET_TAB = 'Sent alerts';
+
+// Sheet tab columns
+const SHEET_HEADER = ['Ticker', 'Report Date', 'Section', 'Alert Date', 'Sent At', 'Days Before', 'Recipients', 'Message ID'];
+
+// SQLite schema version (PRAGMA user_version)
+const SQLITE_SCHEMA_VERSION = 1;
+
+/**
+ * Backend-independent sent-alert store
+ */
+export interface SentAlertStore {
+  readonly description: string;       // For logging, e.g. "SQLite (data/sent-alerts.sqlite)"
+  load(): Promise<SentAlert[]>;
+  record(alerts: SentAlert[]): Promise<void>;
+  prune(before: Date, dryRun: boolean): Promise<number>; // Records sent before; returns count
+  close(): void;
+}
+
+// Row in the sent_alerts table
+interface SqliteRow {
+  ticker: string;
+  report_date: string;
+  section_id: string | null;
+  alert_date: string | null;
+  sent_at: string;
+  alert_days_before: number | null;
+  recipients: string | null;   // JSON array
+  message_id: string | null;
+}
+
+// ============================================================================
+// Backends
+// ============================================================================
+
+/**
+ * Store backed by a local JSON file
+ *
+ * @param filePath - JSON file (default: data/sent-alerts.json)
+ */
+export function createJsonSentAlertStore(filePath = SENT_ALERTS_FILE): SentAlertStore {
+  return {
+    description: `JSON file (${filePath})`,
+    load() {
+      return loadLedger(filePath);
+    },
+    record(alerts) {
+      return appendToLedger(alerts, filePath);
+    },
+    prune(before, dryRun) {
+      return pruneLedger(before, dryRun, filePath);
+    },
+    close() {},
+  };
+}
+
+/**
+ * Store backed by a tab in a Google Sheet
+ *
+ * The tab is created on first write. The header row is rewritten on every
+ * write, so tabs created with fewer columns pick up the new ones. Pruning
+ * rewrites the tab with the rows that are kept.
+ *
+ * @param sheetId - Spreadsheet ID
+ * @param tab - Tab name (default: "Sent alerts")
+ */
+export function createSheetSentAlertStore(sheetId: string, tab = DEFAULT_SHEET_TAB): SentAlertStore {
+  const range = `'${tab}'!A:H`;
+
+  // Data rows (without the header); none if the tab doesn't exist yet
+  const readRows = async (): Promise<string[][]> => {
+    const tabs = await listSheetTabs(sheetId);
+    if (!tabs.includes(tab)) {
+      return [];
+    }
+    const sheets = await getSheetsService();
+    const response = await sheets.spreadsheets.values.get({ spreadsheetId: sheetId, range });
+    return (response.data.values ?? []).slice(1).filter((row) => row[0] && row[1] && row[4]);
+  };
+
+  return {
+    description: `Google Sheet tab "${tab}"`,
+
+    async load() {
+      const rows = await readRows();
+      return rows.map(([ticker, reportDate, sectionId, alertDate, sentAt, daysBefore, recipients, messageId]) => ({
+          ticker,
+          reportDate,
+          sentAt,
+          ...(sectionId ? { sectionId } : {}),
+          ...(alertDate ? { alertDate } : {}),
+          ...(daysBefore !== undefined && daysBefore !== '' ? { alertDaysBefore: Number(daysBefore) } : {}),
+          ...(recipients ? { recipients: String(recipients).split(', ') } : {}),
+          ...(messageId ? { messageId } : {}),
+        }));
+    },
+
+    async record(alerts) {
+      if (alerts.length === 0) return;
+
+      const sheets = await getSheetsService();
+      const tabs = await listSheetTabs(sheetId);
+      const rows = alerts.map((a) => [
+        a.ticker,
+        a.reportDate,
+        a.sectionId ?? '',
+        a.alertDate ?? '',
+        a.sentAt,
+        a.alertDaysBefore !== undefined ? String(a.alertDaysBefore) : '',
+        (a.recipients ?? []).join(', '),
+        a.messageId ?? '',
+      ]);
+
+      if (!tabs.includes(tab)) {
+        await sheets.spreadsheets.batchUpdate({
+          spreadsheetId: sheetId,
+          requestBody: {
+            requests: [{ addSheet: { properties: { title: tab } } }],
+          },
+        });
+      }
+      await sheets.spreadsheets.values.update({
+        spreadsheetId: sheetId,
+        range: `'${tab}'!A1:H1`,
+        valueInputOption: 'RAW',
+        requestBody: { values: [SHEET_HEADER] },
+      });
+
+      // RAW so dates stay as text rather than being reformatted by Sheets
+      await sheets.spreadsheets.values.append({
+        spreadsheetId: sheetId,
+        range,
+        valueInputOption: 'RAW',
+        requestBody: { values: rows },
+      });
+    },
+
+    async prune(before, dryRun) {
+      const rows = await readRows();
+      const kept = rows.filter((row) => new Date(row[4]) >= before);
+      const removed = rows.length - kept.length;
+
+      if (!dryRun && removed > 0) {
+        const sheets = await getSheetsService();
+        await sheets.spreadsheets.values.clear({ spreadsheetId: sheetId, range });
+        await sheets.spreadsheets.values.update({
+          spreadsheetId: sheetId,
+          range: `'${tab}'!A1`,
+          valueInputOption: 'RAW',
+          requestBody: { values: [SHEET_HEADER, ...kept] },
+        });
+      }
+      return removed;
+    },
+
+    close() {},
+  };
+}
+
+/**
+ * Create or upgrade the sent_alerts table to SQLITE_SCHEMA_VERSION
+ *
+ * Version 0 had no threshold, recipients or message ID columns.
+ */
+function migrateSqlite(db: Database.Database): void {
+  const version = db.pragma('user_version', { simple: true }) as number;
+  if (version > SQLITE_SCHEMA_VERSION) {
+    throw new Error(`Sent alerts database is version ${version}; this version reads up to ${SQLITE_SCHEMA_VERSION}`);
+  }
+
+  db.transaction(() => {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS sent_alerts (
+        ticker TEXT NOT NULL,
+        report_date TEXT NOT NULL,
+        section_id TEXT,
+        alert_date TEXT,
+        sent_at TEXT NOT NULL
+      )
+    `);
+    if (version < 1) {
+      db.exec(`
+        ALTER TABLE sent_alerts ADD COLUMN alert_days_before INTEGER;
+        ALTER TABLE sent_alerts ADD COLUMN recipients TEXT;
+        ALTER TABLE sent_alerts ADD COLUMN message_id TEXT;
+      `);
+    }
+    db.pragma(`user_version = ${SQLITE_SCHEMA_VERSION}`);
+  })();
+}
+
+/**
+ * Load the SQLite driver (only when a SQLite store is used, so other runs
+ * don't need the native addon)
+ */
+function loadBetterSqlite3(): typeof Database {
+  return require('better-sqlite3');
+}
+
+/**
+ * Store backed by a SQLite file
+ *
+ * @param filePath - Database file (default: data/sent-alerts.sqlite)
+ */
+export function createSqliteSentAlertStore(filePath = DEFAULT_SQLITE_PATH): SentAlertStore {
+  let db: Database.Database | null = null;
+
+  // Opened on first use so an unused store never creates the file
+  const open = (): Database.Database => {
+    if (!db) {
+      if (!existsSync(dirname(filePath))) {
+        mkdirSync(dirname(filePath), { recursive: true });
+      }
+      const BetterSqlite3 = loadBetterSqlite3();
+      db = new BetterSqlite3(filePath);
+      // Waits for another process's write instead of failing with SQLITE_BUSY
+      db.pragma('busy_timeout = 10000');
+      migrateSqlite(db);
+    }
+    return db;
+  };
+
+  // Reads without creating or migrating the file (dry runs)
+  const peek = <T>(read: (database: Database.Database) => T, empty: T): T => {
+    if (db) return read(db);
+    if (!existsSync(filePath)) return empty;
+
+    const BetterSqlite3 = loadBetterSqlite3();
+    const readonly = new BetterSqlite3(filePath, { readonly: true });
+    try {
+      return read(readonly);
+    } finally {
+      readonly.close();
+    }
+  };
+
+  return {
+    description: `SQLite (${filePath})`,
+
+    async load() {
+      if (!db && !existsSync(filePath)) return [];
+      const rows = open().prepare('SELECT * FROM sent_alerts').all() as SqliteRow[];
+
+      return rows.map((row) => ({
+        ticker: row.ticker,
+        reportDate: row.report_date,
+        sentAt: row.sent_at,
+        ...(row.section_id ? { sectionId: row.section_id } : {}),
+        ...(row.alert_date ? { alertDate: row.alert_date } : {}),
+        ...(row.alert_days_before !== null ? { alertDaysBefore: row.alert_days_before } : {}),
+        ...(row.recipients ? { recipients: JSON.parse(row.recipients) } : {}),
+        ...(row.message_id ? { messageId: row.message_id } : {}),
+      }));
+    },
+
+    async record(alerts) {
+      const database = open();
+      const insert = database.prepare(
+        `INSERT INTO sent_alerts
+           (ticker, report_date, section_id, alert_date, sent_at, alert_days_before, recipients, message_id)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+      );
+      database.transaction((batch: SentAlert[]) => {
+        for (const a of batch) {
+          insert.run(
+            a.ticker,
+            a.reportDate,
+            a.sectionId ?? null,
+            a.alertDate ?? null,
+            a.sentAt,
+            a.alertDaysBefore ?? null,
+            a.recipients ? JSON.stringify(a.recipients) : null,
+            a.messageId ?? null
+          );
+        }
+      })(alerts);
+    },
+
+    async prune(before, dryRun) {
+      const cutoff = before.toISOString();
+      if (dryRun) {
+        return peek((database) => {
+          const row = database.prepare('SELECT COUNT(*) AS count FROM sent_alerts WHERE sent_at < ?').get(cutoff) as { count: number };
+          return row.count;
+        }, 0);
+      }
+      return open().prepare('DELETE FROM sent_alerts WHERE sent_at < ?').run(cutoff).changes;
+    },
+
+    close() {
+      db?.close();
+      db = null;
+    },
+  };
+}
+
+/**
+ * Create the store configured in settings
+ *
+ * @param settings - Validated settings
+ */
+export function getSentAlertStore(settings: Settings): SentAlertStore {
+  const config = settings.sentAlertStore;
+  const resolvePath = (path: string) => (isAbsolute(path) ? path : join(ROOT_DIR, path));
+
+  switch (config.type) {
+    case 'sheet':
+      return createSheetSentAlertStore(config.sheetId ?? getEarningsSheetId(), config.tab);
+    case 'sqlite':
+      return createSqliteSentAlertStore(config.path ? resolvePath(config.path) : undefined);
+    case 'json':
+    default:
+      return createJsonSentAlertStore(config.path ? resolvePath(config.path) : undefined);
+  }
+}
+
+// ============================================================================
+// Deduplication
+// ============================================================================
+
+/**
+ * Build sent-alert records for the alerts in a section
+ *
+ * With per-group results (see sendAlertEmail), each alert records only the
+ * recipients and message IDs of the groups whose email included it; alerts
+ * no group received are left out.
+ *
+ * @param section - Section the alerts were sent in
+ * @param today - Market date of the email
+ * @param email - Send outcome (recipients and message ID), if sent
+ */
+export function toSentAlerts(section: AlertSection, today: Date, email?: EmailResult): SentAlert[] {
+  const sentAt = now().toISOString();
+  const records: SentAlert[] = [];
+  for (const alert of section.alerts) {
+    let delivery: { recipients?: string[]; messageId?: string } = {};
+    if (email?.groups) {
+      const groups = email.groups.filter((group) => !group.accounts || isInAccountScope(alert.accounts, group.accounts));
+      if (groups.length === 0) continue;
+      const messageIds = groups.map((group) => group.messageId).filter(Boolean);
+      delivery = {
+        recipients: groups.flatMap((group) => group.recipients),
+        ...(messageIds.length > 0 ? { messageId: messageIds.join(',') } : {}),
+      };
+    } else if (email) {
+      delivery = { recipients: email.recipients, ...(email.messageId ? { messageId: email.messageId } : {}) };
+    }
+
+    records.push({
+      ticker: alert.report.ticker,
+      reportDate: toDateKey(alert.report.reportDate),
+      sectionId: section.definition.id,
+      alertDate: toDateKey(today),
+      sentAt,
+      alertDaysBefore: alert.daysUntilReport,
+      ...delivery,
+    });
+  }
+  return records;
+}
+
+/**
+ * Check whether an alert in a section was already sent today
+ *
+ * Records written before sections existed have no sectionId/alertDate; they
+ * match any section, on the market date they were sent.
+ */
+function wasSentToday(alert: AlertDue, sectionId: string, todayKey: string, sent: SentAlert[]): boolean {
+  const reportKey = toDateKey(alert.report.reportDate);
+  return sent.some(
+    (record) =>
+      record.ticker === alert.report.ticker &&
+      record.reportDate === reportKey &&
+      (record.sectionId ?? sectionId) === sectionId &&
+      (record.alertDate ?? toDateKey(toMarketDate(new Date(record.sentAt)))) === todayKey
+  );
+}
+
+/**
+ * Remove alerts that were already sent today from the urgent sections
+ *
+ * Non-urgent sections are informational and are left as they are.
+ *
+ * @param sections - Sections for today
+ * @param sent - Records from the store
+ * @param today - Market date of the run
+ * @returns Sections without already-sent alerts, and the removed alerts
+ */
+export function removeAlreadySent(
+  sections: AlertSection[],
+  sent: SentAlert[],
+  today: Date
+): { sections: AlertSection[]; skipped: SentAlert[] } {
+  const todayKey = toDateKey(today);
+  const skipped: SentAlert[] = [];
+
+  const filtered = sections.map((section) => {
+    if (!section.definition.urgent) {
+      return section;
+    }
+
+    const alerts = section.alerts.filter((alert) => {
+      const alreadySent = wasSentToday(alert, section.definition.id, todayKey, sent);
+      if (alreadySent) {
+        skipped.push(...toSentAlerts({ ...section, alerts: [alert] }, today));
+      }
+      return !alreadySent;
+    });
+
+    return { ...section, alerts };
+  });
+
+  return { sections: filtered, skipped };
+}
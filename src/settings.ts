@@ -0,0 +1,466 @@
+/**
+ * Settings for Earnings Alerts
+ *
+ * Typed, validated loader for config/settings.json. Validation collects
+ * every problem and fails with one message, so a bad value stops the run
+ * at startup instead of silently falling back to hardcoded behaviour.
+ *
+ * Values used at runtime:
+ * - alertDaysBefore: holdings alert lead times (trading days), referenced
+ *   by section windows as "alertDaysBefore.min" / "alertDaysBefore.max"
+ * - preMarketRange / postMarketRange: time-of-day categorisation and the
+ *   email footer
+ * - timeOfDay: aliases and timezone suffixes for report times
+ *   (see time-of-day.ts)
+ * - earningsColumns: header aliases per earnings sheet field (see sheets.ts)
+ * - earningsSource: where earnings rows and the watchlist are read from
+ *   (see earnings-source.ts); the EARNINGS_SOURCE env var overrides the type
+ * - additionalEarningsSources: more earnings sources merged with it by
+ *   priority (see earnings-merge.ts)
+ * - sections / tags: email sections (see sections.ts)
+ * - leadTimes: per-ticker / per-tag lead times stretching the sections;
+ *   more can come from sheets.earnings.leadTimesTab (see sections.ts)
+ * - sentAlertStore: where sent alerts are recorded (see sent-alert-store.ts);
+ *   the SENT_ALERT_STORE env var overrides the type
+ * - retention: days to keep each kind of runtime data (see housekeeping.ts)
+ */
+
+import { readFileSync, existsSync } from 'fs';
+import { join } from 'path';
+import {
+  Settings,
+  MarketTimeRange,
+  TimeOfDay,
+  TimeOfDayVocabulary,
+  SentAlertStoreSettings,
+  EarningsSourceSettings,
+  RetentionSettings,
+  EarningsColumnField,
+} from './types';
+import { validateSectionConfig, DEFAULT_SECTIONS } from './sections';
+import { isValidTimeZone } from './market-clock';
+
+// Config path
+const CONFIG_DIR = join(__dirname, '..', 'config');
+export const SETTINGS_FILE = join(CONFIG_DIR, 'settings.json');
+
+// Defaults for keys missing from settings.json
+const DEFAULT_ALERT_DAYS_BEFORE = [5, 1];
+const DEFAULT_PREMARKET_RANGE: MarketTimeRange = { start: '05:00', end: '09:30' };
+const DEFAULT_POSTMARKET_RANGE: MarketTimeRange = { start: '16:00', end: '20:00' };
+const DEFAULT_RETENTION: RetentionSettings = { sentAlerts: 90, snapshots: 90, simulations: 30, logs: 30 };
+
+// Default report time vocabulary. Configured alias lists replace the default
+// list for that category; configured timezones are added to these.
+const DEFAULT_TIME_OF_DAY: TimeOfDayVocabulary = {
+  aliases: {
+    premarket: [
+      'premarket',
+      'pre-market',
+      'pre market',
+      'pre',
+      'bmo', // Before Market Open
+      'before market open',
+      'before market',
+      'before open',
+      'before the open',
+      'morning',
+    ],
+    postmarket: [
+      'postmarket',
+      'post-market',
+      'post market',
+      'post',
+      'amc', // After Market Close
+      'after market close',
+      'after market',
+      'after close',
+      'after the close',
+      'after hours',
+      'after-hours',
+      'evening',
+    ],
+    intraday: ['intraday', 'during market', 'during market hours', 'during the day', 'market hours', 'midday'],
+    unknown: ['unspecified', 'unknown', 'tbd', 'tba', 'tbc', 'n/a', 'xx'],
+  },
+  timezones: {
+    ET: 'America/New_York',
+    EST: 'America/New_York', // "EST"/"EDT" are used loosely for ET year-round
+    EDT: 'America/New_York',
+    CT: 'America/Chicago',
+    CST: 'America/Chicago',
+    CDT: 'America/Chicago',
+    PT: 'America/Los_Angeles',
+    PST: 'America/Los_Angeles',
+    PDT: 'America/Los_Angeles',
+    GMT: 'Etc/GMT',
+    UTC: 'Etc/UTC',
+    BST: 'Europe/London',
+    UK: 'Europe/London',
+    CET: 'Europe/Paris',
+    CEST: 'Europe/Paris',
+    JST: 'Asia/Tokyo',
+    HKT: 'Asia/Hong_Kong',
+  },
+};
+
+const TIME_OF_DAY_CATEGORIES: TimeOfDay[] = ['premarket', 'intraday', 'postmarket', 'unknown'];
+
+// Default earnings sheet header aliases. Configured lists replace the
+// default list for that field. Matching ignores case and punctuation.
+const DEFAULT_EARNINGS_COLUMNS: Record<EarningsColumnField, string[]> = {
+  ticker: ['ticker', 'symbol', 'ticker symbol'],
+  company: ['company', 'company name', 'name', 'security name', 'issuer', 'issuer name'],
+  reportDate: ['next earnings date', 'earnings date', 'report date', 'next report date', 'expected report date'],
+  timeOfDay: ['time of day', 'earnings time', 'report time', 'time'],
+  confirmed: ['confirmed', 'date confirmed', 'earnings date confirmed', 'date status'],
+  epsEstimate: ['eps estimate', 'eps est', 'consensus eps', 'eps consensus'],
+  revenueEstimate: ['revenue estimate', 'revenue est', 'sales estimate', 'consensus revenue', 'revenue consensus'],
+};
+
+const EARNINGS_SOURCE_TYPES: EarningsSourceSettings['type'][] = ['sheet', 'csv', 'json'];
+const SENT_ALERT_STORE_TYPES: SentAlertStoreSettings['type'][] = ['json', 'sheet', 'sqlite'];
+
+// Loaded settings (null = not loaded yet)
+let cachedSettings: Settings | null = null;
+
+/**
+ * Convert an "HH:mm" time to minutes since midnight
+ */
+export function timeToMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+/**
+ * Validate an "HH:mm" time range, adding problems to errors
+ */
+function validateTimeRange(raw: any, label: string, errors: string[]): MarketTimeRange {
+  if (!raw || typeof raw !== 'object') {
+    errors.push(`${label}: must be an object like {"start": "HH:mm", "end": "HH:mm"}`);
+    return raw;
+  }
+
+  const isTime = (value: unknown) =>
+    typeof value === 'string' && /^([01]\d|2[0-3]):[0-5]\d$/.test(value);
+
+  if (!isTime(raw.start)) {
+    errors.push(`${label}.start: must be a time in HH:mm (24-hour) format`);
+  }
+  if (!isTime(raw.end)) {
+    errors.push(`${label}.end: must be a time in HH:mm (24-hour) format`);
+  }
+  if (isTime(raw.start) && isTime(raw.end) && timeToMinutes(raw.start) >= timeToMinutes(raw.end)) {
+    errors.push(`${label}: start (${raw.start}) must be before end (${raw.end})`);
+  }
+
+  return { start: raw.start, end: raw.end };
+}
+
+/**
+ * Validate the report time vocabulary, adding problems to errors
+ *
+ * @returns Vocabulary merged with the defaults
+ */
+function validateTimeOfDay(raw: any, errors: string[]): TimeOfDayVocabulary {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    errors.push('timeOfDay: must be an object with "aliases" and/or "timezones"');
+    return DEFAULT_TIME_OF_DAY;
+  }
+
+  const aliases = { ...DEFAULT_TIME_OF_DAY.aliases };
+  for (const [category, phrases] of Object.entries(raw.aliases ?? {})) {
+    if (!TIME_OF_DAY_CATEGORIES.includes(category as TimeOfDay)) {
+      errors.push(`timeOfDay.aliases.${category}: unknown category (expected ${TIME_OF_DAY_CATEGORIES.join(', ')})`);
+    } else if (!Array.isArray(phrases) || !phrases.every((p) => typeof p === 'string' && p.trim() !== '')) {
+      errors.push(`timeOfDay.aliases.${category}: must be an array of phrases`);
+    } else {
+      aliases[category as TimeOfDay] = phrases;
+    }
+  }
+
+  const timezones = { ...DEFAULT_TIME_OF_DAY.timezones };
+  for (const [suffix, timeZone] of Object.entries(raw.timezones ?? {})) {
+    if (!/^[A-Za-z]+$/.test(suffix)) {
+      errors.push(`timeOfDay.timezones.${suffix}: suffix must be letters only (e.g. "GMT")`);
+    } else if (typeof timeZone !== 'string' || !isValidTimeZone(timeZone)) {
+      errors.push(`timeOfDay.timezones.${suffix}: "${timeZone}" is not a known IANA timezone`);
+    } else {
+      timezones[suffix] = timeZone;
+    }
+  }
+
+  return { aliases, timezones };
+}
+
+/**
+ * Validate earnings sheet header aliases, adding problems to errors
+ *
+ * @returns Aliases merged with the defaults
+ */
+function validateEarningsColumns(raw: any, errors: string[]): Record<EarningsColumnField, string[]> {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    errors.push('earningsColumns: must be an object of field -> array of header names');
+    return DEFAULT_EARNINGS_COLUMNS;
+  }
+
+  const columns = { ...DEFAULT_EARNINGS_COLUMNS };
+  for (const [field, headers] of Object.entries(raw)) {
+    if (!(field in DEFAULT_EARNINGS_COLUMNS)) {
+      errors.push(`earningsColumns.${field}: unknown field (expected ${Object.keys(DEFAULT_EARNINGS_COLUMNS).join(', ')})`);
+    } else if (!Array.isArray(headers) || headers.length === 0 || !headers.every((h) => typeof h === 'string' && h.trim() !== '')) {
+      errors.push(`earningsColumns.${field}: must be a non-empty array of header names`);
+    } else {
+      columns[field as EarningsColumnField] = headers;
+    }
+  }
+
+  return columns;
+}
+
+/**
+ * Validate one earnings source, adding problems to errors
+ *
+ * @param label - Settings key for messages, e.g. "additionalEarningsSources[0]"
+ * @param defaultPriority - Priority if none is configured
+ */
+function validateEarningsSource(raw: any, label: string, defaultPriority: number, errors: string[]): EarningsSourceSettings {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    errors.push(`${label}: must be an object like {"type": "sheet"}`);
+    return { type: 'sheet', priority: defaultPriority };
+  }
+
+  const type = raw.type ?? 'sheet';
+  if (!EARNINGS_SOURCE_TYPES.includes(type)) {
+    errors.push(`${label}.type: "${type}" must be one of ${EARNINGS_SOURCE_TYPES.join(', ')}`);
+  }
+  for (const key of ['path', 'watchlistPath', 'name']) {
+    if (raw[key] !== undefined && (typeof raw[key] !== 'string' || raw[key].trim() === '')) {
+      errors.push(`${label}.${key}: must be a non-empty string`);
+    }
+  }
+  if ((type === 'csv' || type === 'json') && !raw.path) {
+    errors.push(`${label}.path: required for the ${type} source`);
+  }
+  if (raw.priority !== undefined && (!Number.isInteger(raw.priority) || raw.priority < 1)) {
+    errors.push(`${label}.priority: must be a whole number >= 1 (1 wins)`);
+  }
+
+  return {
+    type,
+    ...(raw.path ? { path: raw.path } : {}),
+    ...(raw.watchlistPath ? { watchlistPath: raw.watchlistPath } : {}),
+    ...(raw.name ? { name: raw.name } : {}),
+    priority: raw.priority ?? defaultPriority,
+  };
+}
+
+/**
+ * Validate the earnings sources, adding problems to errors
+ *
+ * The primary source defaults to priority 1 and additional sources to
+ * 2, 3, ... in the order listed. Priorities (given or defaulted) must be
+ * unique.
+ */
+function validateEarningsSources(
+  rawPrimary: any,
+  rawAdditional: any,
+  errors: string[]
+): { earningsSource: EarningsSourceSettings; additionalEarningsSources: EarningsSourceSettings[] } {
+  const earningsSource = validateEarningsSource(rawPrimary, 'earningsSource', 1, errors);
+  if (process.env.EARNINGS_SOURCE) {
+    earningsSource.type = process.env.EARNINGS_SOURCE as EarningsSourceSettings['type'];
+    if (!EARNINGS_SOURCE_TYPES.includes(earningsSource.type)) {
+      errors.push(`EARNINGS_SOURCE: "${earningsSource.type}" must be one of ${EARNINGS_SOURCE_TYPES.join(', ')}`);
+    }
+  }
+
+  if (!Array.isArray(rawAdditional)) {
+    errors.push('additionalEarningsSources: must be an array of sources like {"type": "csv", "path": "..."}');
+    return { earningsSource, additionalEarningsSources: [] };
+  }
+
+  const additionalEarningsSources = rawAdditional.map((raw, index) =>
+    validateEarningsSource(raw, `additionalEarningsSources[${index}]`, index + 2, errors)
+  );
+
+  // Ties would be broken by list order without saying so
+  const labels = ['earningsSource', ...additionalEarningsSources.map((_, index) => `additionalEarningsSources[${index}]`)];
+  const seen = new Map<number, string>();
+  [earningsSource, ...additionalEarningsSources].forEach((source, index) => {
+    const other = seen.get(source.priority);
+    if (other) {
+      errors.push(`${labels[index]}.priority: ${source.priority} is also the priority of ${other} (priorities must be unique)`);
+    } else {
+      seen.set(source.priority, labels[index]);
+    }
+  });
+
+  return { earningsSource, additionalEarningsSources };
+}
+
+/**
+ * Validate the sent-alert store settings, adding problems to errors
+ */
+function validateSentAlertStore(raw: any, errors: string[]): SentAlertStoreSettings {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    errors.push('sentAlertStore: must be an object like {"type": "json"}');
+    return { type: 'json' };
+  }
+
+  const type = process.env.SENT_ALERT_STORE || raw.type || 'json';
+  if (!SENT_ALERT_STORE_TYPES.includes(type)) {
+    errors.push(`sentAlertStore.type: "${type}" must be one of ${SENT_ALERT_STORE_TYPES.join(', ')}`);
+  }
+  for (const key of ['path', 'sheetId', 'tab']) {
+    if (raw[key] !== undefined && (typeof raw[key] !== 'string' || raw[key].trim() === '')) {
+      errors.push(`sentAlertStore.${key}: must be a non-empty string`);
+    }
+  }
+
+  return {
+    type,
+    ...(raw.path ? { path: raw.path } : {}),
+    ...(raw.sheetId ? { sheetId: raw.sheetId } : {}),
+    ...(raw.tab ? { tab: raw.tab } : {}),
+  };
+}
+
+/**
+ * Validate retention periods, adding problems to errors
+ *
+ * @returns Retention with defaults for missing keys
+ */
+function validateRetention(raw: any, errors: string[]): RetentionSettings {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    errors.push('retention: must be an object like {"snapshots": 90}');
+    return DEFAULT_RETENTION;
+  }
+
+  const retention = { ...DEFAULT_RETENTION };
+  for (const [key, days] of Object.entries(raw)) {
+    if (!(key in DEFAULT_RETENTION)) {
+      errors.push(`retention.${key}: unknown data type (expected ${Object.keys(DEFAULT_RETENTION).join(', ')})`);
+    } else if (!Number.isInteger(days) || (days as number) < 1) {
+      errors.push(`retention.${key}: must be a whole number of days >= 1`);
+    } else {
+      retention[key as keyof RetentionSettings] = days as number;
+    }
+  }
+
+  return retention;
+}
+
+/**
+ * Validate raw settings
+ *
+ * @param raw - Parsed settings.json
+ * @returns Typed settings with defaults filled in
+ * @throws Error listing all problems
+ */
+export function validateSettings(raw: any): Settings {
+  const errors: string[] = [];
+
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new Error(`Invalid settings in ${SETTINGS_FILE}: must be a JSON object`);
+  }
+
+  // Holdings alert lead times
+  const alertDaysBefore = raw.alertDaysBefore ?? DEFAULT_ALERT_DAYS_BEFORE;
+  const validLeadTimes =
+    Array.isArray(alertDaysBefore) &&
+    alertDaysBefore.length > 0 &&
+    alertDaysBefore.every((d: unknown) => Number.isInteger(d) && (d as number) >= 0);
+  if (!validLeadTimes) {
+    errors.push('alertDaysBefore: must be a non-empty array of whole numbers of trading days >= 0, e.g. [5, 1]');
+  } else if (new Set(alertDaysBefore).size !== alertDaysBefore.length) {
+    errors.push('alertDaysBefore: contains duplicates');
+  }
+
+  // Market time ranges
+  const errorCount = errors.length;
+  const preMarketRange = validateTimeRange(raw.preMarketRange ?? DEFAULT_PREMARKET_RANGE, 'preMarketRange', errors);
+  const postMarketRange = validateTimeRange(raw.postMarketRange ?? DEFAULT_POSTMARKET_RANGE, 'postMarketRange', errors);
+  if (errors.length === errorCount && timeToMinutes(preMarketRange.end) > timeToMinutes(postMarketRange.start)) {
+    errors.push(
+      `preMarketRange ends (${preMarketRange.end}) after postMarketRange starts (${postMarketRange.start})`
+    );
+  }
+
+  // Report time vocabulary
+  const timeOfDay = validateTimeOfDay(raw.timeOfDay ?? {}, errors);
+
+  // Earnings sheet header aliases
+  const earningsColumns = validateEarningsColumns(raw.earningsColumns ?? {}, errors);
+
+  // Earnings data sources
+  const { earningsSource, additionalEarningsSources } = validateEarningsSources(
+    raw.earningsSource ?? {},
+    raw.additionalEarningsSources ?? [],
+    errors
+  );
+
+  // Sent-alert store
+  const sentAlertStore = validateSentAlertStore(raw.sentAlertStore ?? {}, errors);
+
+  // Data retention
+  const retention = validateRetention(raw.retention ?? {}, errors);
+
+  // Sections (window days may refer to alertDaysBefore)
+  const sectionConfig = validateSectionConfig(
+    raw.sections ?? DEFAULT_SECTIONS,
+    raw.tags ?? {},
+    raw.leadTimes ?? [],
+    validLeadTimes ? alertDaysBefore : DEFAULT_ALERT_DAYS_BEFORE,
+    errors
+  );
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid settings in ${SETTINGS_FILE}:\n  ${errors.join('\n  ')}`);
+  }
+
+  return {
+    sheets: { earnings: { ...raw.sheets?.earnings } },
+    holdingsEmail: { ...raw.holdingsEmail },
+    ...(raw.sheetName ? { sheetName: raw.sheetName } : {}),
+    alertDaysBefore: [...alertDaysBefore].sort((a: number, b: number) => b - a),
+    preMarketRange,
+    postMarketRange,
+    timeOfDay,
+    earningsColumns,
+    earningsSource,
+    additionalEarningsSources,
+    sentAlertStore,
+    retention,
+    ...sectionConfig,
+  };
+}
+
+/**
+ * Load and validate config/settings.json
+ *
+ * A missing file gives the defaults. The result is cached for getSettings().
+ *
+ * @returns Validated settings
+ * @throws Error if the file is not valid JSON or has bad values
+ */
+export function loadSettings(): Settings {
+  let raw: any = {};
+  if (existsSync(SETTINGS_FILE)) {
+    try {
+      raw = JSON.parse(readFileSync(SETTINGS_FILE, 'utf-8'));
+    } catch (error: any) {
+      throw new Error(`Invalid JSON in ${SETTINGS_FILE}: ${error.message}`);
+    }
+  }
+
+  cachedSettings = validateSettings(raw);
+  return cachedSettings;
+}
+
+/**
+ * Get the settings, loading them on first use
+ */
+export function getSettings(): Settings {
+  return cachedSettings ?? loadSettings();
+}
@@ -2,50 +2,53 @@
  * Google Sheets data access for earnings alerts
  *
  * Reads earnings data from Google Sheet and parses into typed objects.
- * Handles validation and error cases gracefully.
+ * Handles validation and error cases gracefully. getEarningsReports and
+ * getWatchlistTickers take an EarningsSource, so the same parsing runs on
+ * a local CSV or JSON fixture (see earnings-source.ts).
+ *
+ * Columns are found by header name (aliases per field in
+ * settings.earningsColumns), so added or reordered columns in the weekly
+ * export don't shift the data. A missing required column fails the run
+ * with the headers that were found.
  */
 
 import { getSheetsService } from './google-auth';
-import { EarningsReport, TimeOfDay } from './types';
+import { EarningsReport, EarningsColumnField, Exchange } from './types';
+import { toCalendarDate } from './market-clock';
+import { getSettings } from './settings';
+import { EarningsSource } from './earnings-source';
+import { parseReportTime } from './time-of-day';
 import { parse, isValid } from 'date-fns';
-import * as fs from 'fs';
-import * as path from 'path';
 
-/**
- * Settings loaded from config/settings.json
- */
-interface Settings {
-  sheets?: {
-    earnings?: { id?: string; watchlistTab?: string };
-  };
-  holdingsEmail?: {
-    sender?: string;
-    filename?: string;
-  };
-  sheetName?: string;
-}
+// Fields the sheet must have; the others are read when present
+const REQUIRED_COLUMNS: EarningsColumnField[] = ['ticker', 'reportDate', 'timeOfDay'];
+
+// Human-readable field names for error messages
+const COLUMN_LABELS: Record<EarningsColumnField, string> = {
+  ticker: 'ticker',
+  company: 'company',
+  reportDate: 'report date',
+  timeOfDay: 'time of day',
+  confirmed: 'confirmed flag',
+  epsEstimate: 'EPS estimate',
+  revenueEstimate: 'revenue estimate',
+};
+
+// Confirmed flag values
+const CONFIRMED_VALUES = ['y', 'yes', 'true', '1', 'x', 'confirmed', 'c'];
+const UNCONFIRMED_VALUES = ['n', 'no', 'false', '0', 'unconfirmed', 'estimated', 'est', 'e', 'projected'];
 
 /**
- * Load settings from config/settings.json
+ * Column index (0-based) of each field found in the header row
  */
-export function loadSettings(): Settings {
-  try {
-    const settingsPath = path.join(process.cwd(), 'config', 'settings.json');
-    const content = fs.readFileSync(settingsPath, 'utf-8');
-    return JSON.parse(content) as Settings;
-  } catch {
-    // Return empty object if settings file doesn't exist or is invalid
-    return {};
-  }
-}
+export type EarningsColumnMap = Partial<Record<EarningsColumnField, number>>;
 
-// Column indices (0-based) based on actual earnings sheet structure
-// Col 1 (A): Ticker, Col 59: Next Earnings Date, Col 60: Time of day
-const COLUMNS = {
-  TICKER: 0,           // Column A
-  REPORT_DATE: 58,     // Column 59 (0-indexed = 58)
-  TIME_OF_DAY: 59,     // Column 60 (0-indexed = 59)
-};
+// Ticker suffixes identifying non-US listings
+// (FactSet "-CA"/"-GB", Yahoo ".TO"/".L", Bloomberg " CN"/" LN")
+const EXCHANGE_SUFFIXES: [RegExp, Exchange][] = [
+  [/(-CA|\.TO| CN)$/i, 'TSX'],
+  [/(-GB|\.L| LN)$/i, 'LSE'],
+];
 
 /**
  * Validation result for a single row
@@ -79,8 +82,7 @@ export function getEarningsSheetId(): string {
   }
 
   // Fall back to config file
-  const settings = loadSettings();
-  const configSheetId = settings.sheets?.earnings?.id;
+  const configSheetId = getSettings().sheets.earnings.id;
   if (configSheetId) {
     return configSheetId;
   }
@@ -192,6 +194,74 @@ async function getSheetName(): Promise<string> {
   }
 }
 
+/**
+ * Normalise a header or alias for matching ("Next Earnings Date:" -> "next earnings date")
+ */
+function normalizeHeader(text: string): string {
+  return (text ?? '').toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+/**
+ * Convert a 0-based column index to its letter ("A", "Z", "AA", ...)
+ */
+export function columnLetter(index: number): string {
+  let letters = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    letters = String.fromCharCode(65 + ((n - 1) % 26)) + letters;
+  }
+  return letters;
+}
+
+/**
+ * Find each field's column from the header row
+ *
+ * The first header matching one of a field's aliases wins.
+ *
+ * @param header - Header row
+ * @param aliases - Header names per field (default: settings.earningsColumns)
+ * @returns Column index per field found
+ * @throws Error naming the missing required fields and listing the headers found
+ */
+export function mapEarningsColumns(
+  header: string[],
+  aliases: Record<EarningsColumnField, string[]> = getSettings().earningsColumns
+): EarningsColumnMap {
+  const normalized = header.map(normalizeHeader);
+  const columns: EarningsColumnMap = {};
+
+  for (const [field, names] of Object.entries(aliases) as [EarningsColumnField, string[]][]) {
+    const wanted = names.map(normalizeHeader);
+    const index = normalized.findIndex((col) => col !== '' && wanted.includes(col));
+    if (index !== -1) {
+      columns[field] = index;
+    }
+  }
+
+  const missing = REQUIRED_COLUMNS.filter((field) => columns[field] === undefined);
+  if (missing.length > 0) {
+    const found = header
+      .map((col, index) => (col?.trim() ? `${columnLetter(index)} "${col.trim()}"` : null))
+      .filter(Boolean);
+    throw new Error(
+      `Earnings sheet is missing required column(s):\n` +
+        missing.map((field) => `  - ${COLUMN_LABELS[field]} (looked for: ${aliases[field].join(', ')})`).join('\n') +
+        `\nHeaders found: ${found.join(', ') || '(none)'}\n` +
+        'Add the header name to "earningsColumns" in config/settings.json if it was renamed.'
+    );
+  }
+
+  return columns;
+}
+
+/**
+ * Describe the mapped columns for logging ("ticker A, reportDate BG, ...")
+ */
+export function describeEarningsColumns(columns: EarningsColumnMap): string {
+  return Object.entries(columns)
+    .map(([field, index]) => `${field} ${columnLetter(index!)}`)
+    .join(', ');
+}
+
 /**
  * Read raw data from Google Sheet
  *
@@ -202,9 +272,16 @@ export async function readRawSheetData(): Promise<string[][]> {
   const sheetId = getSheetId();
   const sheetName = await getSheetName();
 
-  // Read columns A and BG:BH (ticker, earnings date, time)
-  // Sheet has 60+ columns, we need specific ones
-  const range = `${sheetName}!A:BH`;
+  // Find the columns from the header row, then read through the last one used
+  const headerResponse = await sheets.spreadsheets.values.get({
+    spreadsheetId: sheetId,
+    range: `${sheetName}!1:1`,
+  });
+  const header = (headerResponse.data.values?.[0] ?? []).map((cell) => String(cell ?? ''));
+  const columns = mapEarningsColumns(header);
+  const lastColumn = Math.max(...Object.values(columns).map((index) => index!));
+  const range = `${sheetName}!A:${columnLetter(lastColumn)}`;
+  console.log(`Reading ${range} (${describeEarningsColumns(columns)})`);
 
   const response = await sheets.spreadsheets.values.get({
     spreadsheetId: sheetId,
@@ -225,7 +302,7 @@ export async function readRawSheetData(): Promise<string[][]> {
  * Handles various date formats commonly found in spreadsheets
  *
  * @param dateStr - Date string from sheet
- * @returns Parsed Date or null if invalid
+ * @returns Parsed calendar date (UTC midnight) or null if invalid
  */
 function parseDate(dateStr: string): Date | null {
   if (!dateStr || typeof dateStr !== 'string') {
@@ -252,87 +329,32 @@ function parseDate(dateStr: string): Date | null {
   for (const format of formats) {
     const parsed = parse(trimmed, format, new Date());
     if (isValid(parsed)) {
-      return parsed;
+      return toCalendarDate(parsed);
     }
   }
 
   // Try native Date parsing as fallback
   const nativeDate = new Date(trimmed);
   if (isValid(nativeDate)) {
-    return nativeDate;
+    return toCalendarDate(nativeDate);
   }
 
   return null;
 }
 
 /**
- * Parse time of day string into TimeOfDay enum
+ * Determine the listing exchange from a ticker's suffix
  *
- * @param timeStr - Time string from sheet (e.g., "premarket", "postmarket", "6:00am")
- * @returns TimeOfDay enum value
+ * @param ticker - Ticker as it appears in the sheet (e.g. "SHOP-CA", "VOD.L")
+ * @returns Exchange (NYSE for tickers without a recognised suffix)
  */
-function parseTimeOfDay(timeStr: string | undefined): TimeOfDay {
-  if (!timeStr || typeof timeStr !== 'string') {
-    return 'unknown';
-  }
-
-  const normalized = timeStr.trim().toLowerCase();
-
-  // Skip explicit unknowns
-  if (normalized === 'unspecified' || normalized === 'xx' || normalized === '') {
-    return 'unknown';
-  }
-
-  // Direct text matches for premarket
-  if (
-    normalized === 'premarket' ||
-    normalized === 'pre-market' ||
-    normalized === 'pre' ||
-    normalized === 'bmo' ||
-    normalized === 'before market' ||
-    normalized === 'before market open'
-  ) {
-    return 'premarket';
-  }
-
-  // Direct text matches for postmarket
-  if (
-    normalized === 'postmarket' ||
-    normalized === 'post-market' ||
-    normalized === 'post' ||
-    normalized === 'amc' ||
-    normalized === 'after market' ||
-    normalized === 'after market close'
-  ) {
-    return 'postmarket';
-  }
-
-  // Try to parse specific time (e.g., "6:00 AM", "4:30 PM")
-  const timeMatch = normalized.match(/^(\d{1,2}):(\d{2})\s*(am|pm)$/i);
-  if (timeMatch) {
-    let hours = parseInt(timeMatch[1], 10);
-    const period = timeMatch[3]?.toLowerCase();
-
-    // Convert to 24-hour format
-    if (period === 'pm' && hours !== 12) {
-      hours += 12;
-    } else if (period === 'am' && hours === 12) {
-      hours = 0;
+function exchangeFromTicker(ticker: string): Exchange {
+  for (const [pattern, exchange] of EXCHANGE_SUFFIXES) {
+    if (pattern.test(ticker)) {
+      return exchange;
     }
-
-    // Post-market: 3:00pm - 8:00pm (15-20 in 24h)
-    // Being generous with start time since some report at 3pm
-    if (hours >= 15 && hours <= 20) {
-      return 'postmarket';
-    }
-
-    // Pre-market: everything else with a time is available before market open
-    // This includes midnight-5am (international companies), 5am-9:30am (normal premarket)
-    // Reports at these times will be available when US market opens
-    return 'premarket';
   }
-
-  return 'unknown';
+  return 'NYSE';
 }
 
 /**
@@ -340,14 +362,15 @@ function parseTimeOfDay(timeStr: string | undefined): TimeOfDay {
  *
  * @param row - Array of cell values
  * @param rowIndex - Row number (for error messages)
+ * @param columns - Column of each field (see mapEarningsColumns)
  * @returns Validation result
  */
-function validateRow(row: string[], rowIndex: number): ValidationResult {
+function validateRow(row: string[], rowIndex: number, columns: EarningsColumnMap): ValidationResult {
   const errors: string[] = [];
   const warnings: string[] = [];
 
-  const ticker = row[COLUMNS.TICKER]?.trim();
-  const reportDate = row[COLUMNS.REPORT_DATE]?.trim();
+  const ticker = cell(row, columns.ticker);
+  const reportDate = cell(row, columns.reportDate);
 
   // Required fields
   if (!ticker) {
@@ -373,40 +396,113 @@ function validateRow(row: string[], rowIndex: number): ValidationResult {
   };
 }
 
+/**
+ * Get a trimmed cell value ('' if the field has no column)
+ */
+function cell(row: string[], index: number | undefined): string {
+  return index === undefined ? '' : row[index]?.trim() ?? '';
+}
+
+/**
+ * Parse a confirmed flag cell
+ *
+ * @returns true/false, or undefined if blank or not recognised
+ */
+function parseConfirmed(text: string): boolean | undefined {
+  const value = text.toLowerCase();
+  if (CONFIRMED_VALUES.includes(value)) return true;
+  if (UNCONFIRMED_VALUES.includes(value)) return false;
+  return undefined;
+}
+
+/**
+ * Parse an estimate cell like "1.52", "$1,234.5" or "(0.12)"
+ *
+ * @returns The number, or undefined if blank or not a number
+ */
+function parseEstimate(text: string): number | undefined {
+  if (!text) return undefined;
+  const negative = /^\(.*\)$/.test(text);
+  const value = Number(text.replace(/[$,()\s]/g, ''));
+  if (text.replace(/[$,()\s]/g, '') === '' || isNaN(value)) return undefined;
+  return negative ? -value : value;
+}
+
+/**
+ * Read the optional confirmed flag and estimates from a row
+ */
+function optionalFields(row: string[], columns: EarningsColumnMap): Partial<EarningsReport> {
+  const dateConfirmed = parseConfirmed(cell(row, columns.confirmed));
+  const epsEstimate = parseEstimate(cell(row, columns.epsEstimate));
+  const revenueEstimate = parseEstimate(cell(row, columns.revenueEstimate));
+  return {
+    ...(dateConfirmed !== undefined ? { dateConfirmed } : {}),
+    ...(epsEstimate !== undefined ? { epsEstimate } : {}),
+    ...(revenueEstimate !== undefined ? { revenueEstimate } : {}),
+  };
+}
+
 /**
  * Parse a single row into an EarningsReport object
  *
+ * Without a company column (or a name in it), company is the ticker; see
+ * company-names.ts for the fallbacks.
+ *
  * @param row - Array of cell values
+ * @param columns - Column of each field (see mapEarningsColumns)
  * @returns EarningsReport or null if parsing fails
  */
-function parseRow(row: string[]): EarningsReport | null {
-  const ticker = row[COLUMNS.TICKER]?.trim().toUpperCase();
-  const dateStr = row[COLUMNS.REPORT_DATE]?.trim();
-  const timeStr = row[COLUMNS.TIME_OF_DAY]?.trim();
+function parseRow(row: string[], columns: EarningsColumnMap): EarningsReport | null {
+  const ticker = cell(row, columns.ticker).toUpperCase();
+  const dateStr = cell(row, columns.reportDate);
+  const timeStr = cell(row, columns.timeOfDay);
 
   const reportDate = parseDate(dateStr);
   if (!reportDate) {
     return null;
   }
 
+  const exchange = exchangeFromTicker(ticker);
+  const { timeOfDay, time } = parseReportTime(timeStr, reportDate, exchange);
+
   return {
     ticker,
-    company: ticker, // Use ticker as company name (sheet doesn't have company column in our range)
+    company: cell(row, columns.company) || ticker,
     reportDate,
-    timeOfDay: parseTimeOfDay(timeStr),
+    timeOfDay,
+    ...(time ? { reportTime: time } : {}),
     rawTimeString: timeStr || undefined,
+    exchange,
+    ...optionalFields(row, columns),
   };
 }
 
 /**
- * Read earnings data from Google Sheet and parse into typed objects
+ * Read earnings data from a source and parse into typed objects
  *
- * @param skipHeader - Whether to skip the first row as a header (default: true)
+ * @param source - Where to read the rows from
  * @returns SheetReadResult with parsed reports and statistics
  */
-export async function readEarningsData(skipHeader = true): Promise<SheetReadResult> {
-  const rawData = await readRawSheetData();
+export async function readEarningsData(source: EarningsSource): Promise<SheetReadResult> {
+  const rawData = await source.readEarningsRows();
+  return parseEarningsRows(rawData);
+}
 
+/**
+ * Parse raw earnings sheet rows into typed objects
+ *
+ * Used for rows from any earnings source and for rows replayed from a
+ * snapshot. The first row is the header the columns are found from.
+ *
+ * @param rawData - Array of row arrays, as returned by EarningsSource.readEarningsRows()
+ * @param aliases - Header names per field (default: settings.earningsColumns)
+ * @returns SheetReadResult with parsed reports and statistics
+ * @throws Error if a required column is missing (see mapEarningsColumns)
+ */
+export function parseEarningsRows(
+  rawData: string[][],
+  aliases: Record<EarningsColumnField, string[]> = getSettings().earningsColumns
+): SheetReadResult {
   if (rawData.length === 0) {
     return {
       reports: [],
@@ -417,9 +513,10 @@ export async function readEarningsData(skipHeader = true): Promise<SheetReadResu
     };
   }
 
-  // Skip header row if requested
-  const dataRows = skipHeader ? rawData.slice(1) : rawData;
-  const startIndex = skipHeader ? 2 : 1; // 1-based row number for logging
+  // Find the columns from the header row
+  const columns = mapEarningsColumns(rawData[0], aliases);
+  const dataRows = rawData.slice(1);
+  const startIndex = 2; // 1-based row number for logging
 
   const reports: EarningsReport[] = [];
   const allWarnings: string[] = [];
@@ -430,11 +527,11 @@ export async function readEarningsData(skipHeader = true): Promise<SheetReadResu
     const rowNumber = startIndex + i;
 
     // Skip empty rows
-    if (!row || row.every((cell) => !cell?.trim())) {
+    if (!row || row.every((value) => !value?.trim())) {
       continue;
     }
 
-    const validation = validateRow(row, rowNumber);
+    const validation = validateRow(row, rowNumber, columns);
 
     // Collect warnings
     allWarnings.push(...validation.warnings);
@@ -446,7 +543,7 @@ export async function readEarningsData(skipHeader = true): Promise<SheetReadResu
       continue;
     }
 
-    const report = parseRow(row);
+    const report = parseRow(row, columns);
     if (report) {
       reports.push(report);
     } else {
@@ -468,14 +565,15 @@ export async function readEarningsData(skipHeader = true): Promise<SheetReadResu
 }
 
 /**
- * Get all valid earnings reports from the configured Google Sheet
+ * Get all valid earnings reports from a source
  *
  * Convenience function that just returns the reports array.
  *
+ * @param source - Where to read the rows from
  * @returns Array of EarningsReport objects
  */
-export async function getEarningsReports(): Promise<EarningsReport[]> {
-  const result = await readEarningsData();
+export async function getEarningsReports(source: EarningsSource): Promise<EarningsReport[]> {
+  const result = await readEarningsData(source);
   console.log(
     `Loaded ${result.validRows} earnings reports (${result.skippedRows} rows skipped)`
   );
@@ -483,14 +581,11 @@ export async function getEarningsReports(): Promise<EarningsReport[]> {
 }
 
 /**
- * Read ticker watchlist from "Tickers for email" tab
- *
- * Returns unique uppercase ticker symbols from the watchlist tab.
- * Handles empty tab gracefully by returning empty array.
+ * Read the raw rows of the "Tickers for email" tab
  *
- * @returns Array of unique uppercase ticker symbols
+ * @returns Rows of column A, including any header
  */
-export async function getWatchlistTickers(): Promise<string[]> {
+export async function readWatchlistRows(): Promise<string[][]> {
   const sheets = await getSheetsService();
   const sheetId = getEarningsSheetId();
 
@@ -499,11 +594,24 @@ export async function getWatchlistTickers(): Promise<string[]> {
     range: 'Tickers for email!A:A',
   });
 
-  const rows = response.data.values || [];
+  return (response.data.values || []).map((row) => row.map((cell) => String(cell ?? '')));
+}
+
+/**
+ * Read the ticker watchlist from a source
+ *
+ * Returns unique uppercase ticker symbols from the first column.
+ * Handles an empty watchlist gracefully by returning empty array.
+ *
+ * @param source - Where to read the watchlist from
+ * @returns Array of unique uppercase ticker symbols
+ */
+export async function getWatchlistTickers(source: EarningsSource): Promise<string[]> {
+  const rows = await source.readWatchlistRows();
 
   // Skip header if present, filter empty, uppercase, dedupe
   const tickers = rows
-    .flat()
+    .map((row) => row[0])
     .filter(Boolean)
     .map((t) => t.toString().trim().toUpperCase())
     .filter((t) => t && t !== 'TICKER'); // Skip header row
@@ -511,6 +619,26 @@ export async function getWatchlistTickers(): Promise<string[]> {
   return [...new Set(tickers)]; // Dedupe
 }
 
+/**
+ * Read the raw rows of the lead times tab (Ticker, Tag, Days, Sessions)
+ *
+ * Parsed and validated by leadTimesFromSheetRows in sections.ts.
+ *
+ * @param tab - Tab name in the earnings sheet
+ * @returns Rows including the header
+ */
+export async function readLeadTimeRows(tab: string): Promise<string[][]> {
+  const sheets = await getSheetsService();
+  const sheetId = getEarningsSheetId();
+
+  const response = await sheets.spreadsheets.values.get({
+    spreadsheetId: sheetId,
+    range: `${tab}!A:D`,
+  });
+
+  return (response.data.values || []).map((row) => row.map((cell) => String(cell ?? '')));
+}
+
 // ============================================================================
 // Holdings Sheet Writer (for Supabase integration)
 // ============================================================================
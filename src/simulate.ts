@@ -0,0 +1,289 @@
+#!/usr/bin/env node
+/**
+ * Schedule Simulator - Every email that would go out over a date range
+ *
+ * Walks the trading days in a range and runs the section builder for each
+ * morning against one earnings snapshot, showing which mornings send an
+ * email, the subject line and which tickers land in which section.
+ *
+ * Also flags tickers reporting in the range that never land in any section.
+ * Mutes from config/mutes.json are applied as the daily check would.
+ *
+ * Usage:
+ *   npm run simulate -- --from 2026-01-20 --to 2026-02-27 [--snapshot path] [--json path]
+ *     [--source csv|json --source-path path]
+ */
+
+import { Command } from 'commander';
+import * as dotenv from 'dotenv';
+import { writeFileSync, existsSync, mkdirSync } from 'fs';
+import { join, dirname } from 'path';
+
+dotenv.config();
+
+import { getTradingDaysInRange, isTradingDay } from './calendar';
+import { applyCalendarOverrides } from './calendar-overrides';
+import { getHoldingsFromEmail, holdingTickers, getAccountsByTicker } from './holdings-email';
+import { getWatchlistTickers, parseEarningsRows } from './sheets';
+import { getEarningsSource } from './earnings-source';
+import { mergeEarningsReports } from './earnings-merge';
+import { formatAlertEmail } from './email';
+import { buildAlertSections, filterReportsOfInterest, countSectionAlerts, withSheetLeadTimes } from './sections';
+import { loadSettings } from './settings';
+import { loadSnapshot, SnapshotSource } from './snapshot';
+import { loadMutes, loadMuteState, applyMutes } from './mutes';
+import { setNow, marketInstant, parseDateKey, toDateKey, formatCalendarDate } from './market-clock';
+import { EarningsReport, Holding } from './types';
+
+// Time the scheduled workflow runs (ET)
+const SCHEDULED_RUN_TIME = '06:00';
+
+// Default output directory for JSON reports
+const DATA_DIR = join(__dirname, '..', 'data');
+const SIMULATIONS_DIR = join(DATA_DIR, 'simulations');
+
+// CLI setup
+const program = new Command();
+program
+  .name('simulate')
+  .description('Show every email that would go out over a date range')
+  .requiredOption('--from <date>', 'First date (YYYY-MM-DD)')
+  .requiredOption('--to <date>', 'Last date (YYYY-MM-DD)')
+  .option('--snapshot <path>', 'Snapshot file with holdings/watchlist/earnings rows (default: live data)')
+  .option('--source <type>', 'Earnings source: sheet, csv or json (default: earningsSource in settings)')
+  .option('--source-path <path>', 'File for a csv/json earnings source')
+  .option('--json <path>', 'Where to write the JSON report (default: data/simulations/)')
+  .parse();
+
+const options = program.opts();
+
+/**
+ * One simulated morning
+ */
+interface SimulatedDay {
+  date: string;
+  sends: boolean;
+  subject: string | null;
+  sections: Record<string, string[]>; // Section id -> tickers
+}
+
+/**
+ * A ticker reporting in the range that never appears in any section
+ */
+interface MissedReport {
+  ticker: string;
+  reportDate: string;
+  timeOfDay: string;
+  rawTimeString?: string;
+  reason: string;
+}
+
+/**
+ * Explain why a report never landed in a section
+ */
+function explainMiss(report: EarningsReport, mutedKeys: Set<string>): string {
+  if (mutedKeys.has(`${report.ticker}|${toDateKey(report.reportDate)}`)) {
+    return 'muted in config/mutes.json';
+  }
+  const exchange = report.exchange ?? 'NYSE';
+  if (!isTradingDay(report.reportDate, exchange)) {
+    return `report date is not a ${exchange} trading day`;
+  }
+  if (report.timeOfDay === 'unknown') {
+    return 'unknown time of day fell outside every section window';
+  }
+  return 'not covered by any section window';
+}
+
+/**
+ * Pad a table cell to a fixed width
+ */
+function pad(text: string, width: number): string {
+  return text.length >= width ? text : text + ' '.repeat(width - text.length);
+}
+
+/**
+ * Main function
+ */
+async function main(): Promise<void> {
+  const fromDate = parseDateKey(options.from);
+  const toDate = parseDateKey(options.to);
+  if (!fromDate || !toDate) {
+    throw new Error('--from and --to must be dates in YYYY-MM-DD format');
+  }
+  if (toDate < fromDate) {
+    throw new Error('--to must not be before --from');
+  }
+
+  console.log('========================================');
+  console.log('Earnings Alerts - Schedule Simulator');
+  console.log('========================================');
+  console.log(`Range: ${options.from} to ${options.to}`);
+
+  const settings = loadSettings();
+  applyCalendarOverrides();
+  const muteRules = loadMutes(settings.sections.map((s) => s.id));
+
+  // Short column labels (S1, S2, ...) in email order
+  const columns = settings.sections.map((section, index) => ({ id: section.id, label: `S${index + 1}` }));
+
+  // Step 1: Load one set of inputs for the whole range
+  let holdings: string[];
+  let positions: Holding[] = [];
+  let watchlist: string[];
+  let earningsRows: string[][];
+  let additionalSources: SnapshotSource[];
+  let leadTimeRows: string[][] | undefined;
+  let sourceName: string;
+  const leadTimesTab = settings.sheets.earnings.leadTimesTab;
+
+  if (options.snapshot) {
+    console.log(`\n[Step 1] Loading snapshot ${options.snapshot}...`);
+    const snapshot = loadSnapshot(options.snapshot);
+    holdings = snapshot.holdings;
+    positions = snapshot.positions ?? [];
+    watchlist = snapshot.watchlist;
+    earningsRows = snapshot.earningsRows;
+    additionalSources = snapshot.additionalSources ?? [];
+    leadTimeRows = snapshot.leadTimeRows;
+    sourceName = getEarningsSource(settings.earningsSource).description;
+  } else {
+    const source = getEarningsSource(settings.earningsSource, { type: options.source, path: options.sourcePath });
+    console.log(`\n[Step 1] Loading holdings from email and watchlist/earnings data from ${source.description}...`);
+    try {
+      positions = await getHoldingsFromEmail();
+    } catch (error: any) {
+      console.error(`[ERROR] Failed to get holdings from email: ${error.message}`);
+      console.log('[INFO] Continuing without holdings data...');
+    }
+    holdings = holdingTickers(positions);
+    watchlist = await getWatchlistTickers(source);
+    earningsRows = await source.readEarningsRows();
+    leadTimeRows = leadTimesTab && source.readLeadTimeRows ? await source.readLeadTimeRows(leadTimesTab) : undefined;
+    sourceName = source.description;
+
+    additionalSources = [];
+    for (const config of settings.additionalEarningsSources) {
+      const extra = getEarningsSource(config);
+      console.log(`Loading earnings data from ${extra.description}...`);
+      additionalSources.push({ source: extra.description, priority: config.priority, earningsRows: await extra.readEarningsRows() });
+    }
+  }
+  const sectionConfig = leadTimesTab && leadTimeRows ? withSheetLeadTimes(settings, leadTimeRows, leadTimesTab) : settings;
+
+  // Merge the earnings sources as the daily check does
+  const { reports: merged } = mergeEarningsReports(
+    [
+      { source: sourceName, priority: settings.earningsSource.priority, reports: parseEarningsRows(earningsRows).reports },
+      ...additionalSources.map((s) => ({ source: s.source, priority: s.priority, reports: parseEarningsRows(s.earningsRows).reports })),
+    ],
+    fromDate
+  );
+  const reports = filterReportsOfInterest(merged, holdings, watchlist);
+  console.log(`Holdings: ${holdings.length}, watchlist: ${watchlist.length}, reports of interest: ${reports.length}`);
+
+  // Step 2: Run the section builder for each trading morning
+  console.log('\n[Step 2] Simulating trading mornings...');
+  const days: SimulatedDay[] = [];
+  const landed = new Set<string>();
+  const mutedKeys = new Set<string>();
+
+  const accountsByTicker = getAccountsByTicker(positions);
+
+  // Mute state is carried from day to day in memory, never saved
+  let muteState = loadMuteState();
+
+  for (const day of getTradingDaysInRange(fromDate, toDate)) {
+    setNow(marketInstant(day, SCHEDULED_RUN_TIME));
+
+    const mutes = applyMutes(buildAlertSections(reports, holdings, day, sectionConfig, accountsByTicker), muteRules, muteState, reports, day);
+    const sections = mutes.sections;
+    muteState = mutes.state;
+    mutes.muted.forEach(({ alert }) => mutedKeys.add(`${alert.report.ticker}|${toDateKey(alert.report.reportDate)}`));
+    const sends = countSectionAlerts(sections) > 0;
+
+    const tickersBySection: Record<string, string[]> = {};
+    for (const { definition, alerts } of sections) {
+      tickersBySection[definition.id] = alerts.map((alert) => {
+        landed.add(`${alert.report.ticker}|${toDateKey(alert.report.reportDate)}`);
+        return alert.report.ticker;
+      });
+    }
+
+    days.push({
+      date: toDateKey(day),
+      sends,
+      subject: sends ? formatAlertEmail(sections).subject : null,
+      sections: tickersBySection,
+    });
+  }
+  setNow(null);
+
+  // Step 3: Reports in the range that never land in a section
+  const missed: MissedReport[] = reports
+    .filter((r) => r.reportDate >= fromDate && r.reportDate <= toDate)
+    .filter((r) => !landed.has(`${r.ticker}|${toDateKey(r.reportDate)}`))
+    .map((r) => ({
+      ticker: r.ticker,
+      reportDate: toDateKey(r.reportDate),
+      timeOfDay: r.timeOfDay,
+      ...(r.rawTimeString ? { rawTimeString: r.rawTimeString } : {}),
+      reason: explainMiss(r, mutedKeys),
+    }));
+
+  // Terminal table
+  console.log('');
+  columns.forEach((c, i) => console.log(`${c.label} = ${settings.sections[i].title}`));
+  console.log('');
+  const header =
+    pad('Date', 16) +
+    pad('Send', 6) +
+    columns.map((c) => pad(c.label, 5)).join('') +
+    'Subject';
+  console.log(header);
+  console.log('-'.repeat(header.length + 20));
+  for (const day of days) {
+    const display = formatCalendarDate(parseDateKey(day.date)!, 'EEE yyyy-MM-dd');
+    console.log(
+      pad(display, 16) +
+        pad(day.sends ? 'yes' : '-', 6) +
+        columns.map((c) => pad(String(day.sections[c.id].length || '-'), 5)).join('') +
+        (day.subject ?? '')
+    );
+    for (const c of columns) {
+      if (day.sections[c.id].length > 0) {
+        console.log(`${' '.repeat(22)}${pad(c.label, 5)}${day.sections[c.id].join(', ')}`);
+      }
+    }
+  }
+
+  const sendDays = days.filter((d) => d.sends).length;
+  console.log(`\n${sendDays} of ${days.length} trading mornings send an email`);
+
+  if (missed.length > 0) {
+    console.warn(`\n[WARN] ${missed.length} ticker(s) reporting in range never land in any section:`);
+    for (const m of missed) {
+      const raw = m.rawTimeString ? `, raw "${m.rawTimeString}"` : '';
+      console.warn(`  ${m.ticker} - ${m.reportDate} (${m.timeOfDay}${raw}): ${m.reason}`);
+    }
+  } else {
+    console.log('Every ticker reporting in range lands in at least one section');
+  }
+
+  // JSON report
+  const jsonPath = options.json ?? join(SIMULATIONS_DIR, `${options.from}_to_${options.to}.json`);
+  if (!existsSync(dirname(jsonPath))) {
+    mkdirSync(dirname(jsonPath), { recursive: true });
+  }
+  writeFileSync(
+    jsonPath,
+    JSON.stringify({ from: options.from, to: options.to, days, missed }, null, 2),
+    'utf-8'
+  );
+  console.log(`\nJSON report: ${jsonPath}`);
+}
+
+main().catch((error) => {
+  console.error('Error:', error.message);
+  process.exit(1);
+});
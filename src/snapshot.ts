@@ -0,0 +1,140 @@
+/**
+ * Run Snapshots for Earnings Alerts
+ *
+ * A snapshot captures the inputs of a daily check (holdings and their
+ * positions, watchlist, raw earnings sheet rows, rows from additional earnings
+ * sources and lead times tab rows) so the check can be replayed later with
+ * --as-of, exactly as it was computed on that date.
+ *
+ * Snapshots are written to data/snapshots/YYYY-MM-DD.json on every live run.
+ */
+
+import { readFileSync, writeFileSync, existsSync, mkdirSync } from 'fs';
+import { join } from 'path';
+import { now } from './market-clock';
+import { Holding } from './types';
+
+// Path to snapshots directory
+const DATA_DIR = join(__dirname, '..', 'data');
+export const SNAPSHOTS_DIR = join(DATA_DIR, 'snapshots');
+
+/**
+ * Inputs of a single daily check
+ */
+export interface RunSnapshot {
+  date: string;            // Market date of the run (YYYY-MM-DD)
+  capturedAt: string;      // ISO datetime string
+  holdings: string[];      // Holdings tickers
+  positions?: Holding[];   // Holdings CSV rows (shares, market value, weight)
+  watchlist: string[];     // Watchlist tickers
+  earningsRows: string[][]; // Raw earnings sheet rows (including header)
+  leadTimeRows?: string[][]; // Raw lead times tab rows, if a tab is configured
+  additionalSources?: SnapshotSource[]; // Rows from additionalEarningsSources
+}
+
+/**
+ * Raw rows read from an additional earnings source
+ */
+export interface SnapshotSource {
+  source: string;           // Source name
+  priority: number;         // Merge priority (see earnings-merge.ts)
+  earningsRows: string[][]; // Raw rows (including header)
+}
+
+/**
+ * Get the default snapshot path for a market date
+ *
+ * @param date - Market date (YYYY-MM-DD)
+ */
+export function getSnapshotPath(date: string): string {
+  return join(SNAPSHOTS_DIR, `${date}.json`);
+}
+
+/**
+ * Load and validate a snapshot file
+ *
+ * @param filePath - Path to snapshot JSON
+ * @returns Parsed snapshot
+ * @throws Error if the file is missing or malformed
+ */
+export function loadSnapshot(filePath: string): RunSnapshot {
+  if (!existsSync(filePath)) {
+    throw new Error(`Snapshot not found: ${filePath}`);
+  }
+
+  let parsed: any;
+  try {
+    parsed = JSON.parse(readFileSync(filePath, 'utf-8'));
+  } catch (error: any) {
+    throw new Error(`Invalid JSON in snapshot ${filePath}: ${error.message}`);
+  }
+
+  const isStringArray = (value: unknown) =>
+    Array.isArray(value) && value.every((v) => typeof v === 'string');
+
+  if (!parsed || typeof parsed !== 'object') {
+    throw new Error(`Snapshot ${filePath} must be a JSON object`);
+  }
+  if (!isStringArray(parsed.holdings ?? [])) {
+    throw new Error(`Snapshot ${filePath}: "holdings" must be an array of tickers`);
+  }
+  if (!isStringArray(parsed.watchlist ?? [])) {
+    throw new Error(`Snapshot ${filePath}: "watchlist" must be an array of tickers`);
+  }
+  if (!Array.isArray(parsed.earningsRows) || !parsed.earningsRows.every(Array.isArray)) {
+    throw new Error(`Snapshot ${filePath}: "earningsRows" must be an array of sheet rows`);
+  }
+  if (parsed.positions !== undefined && !(Array.isArray(parsed.positions) && parsed.positions.every((p: any) => typeof p?.ticker === 'string'))) {
+    throw new Error(`Snapshot ${filePath}: "positions" must be an array of holdings with a "ticker"`);
+  }
+  if (parsed.leadTimeRows !== undefined && !(Array.isArray(parsed.leadTimeRows) && parsed.leadTimeRows.every(Array.isArray))) {
+    throw new Error(`Snapshot ${filePath}: "leadTimeRows" must be an array of sheet rows`);
+  }
+
+  const validSource = (s: any) =>
+    typeof s?.source === 'string' &&
+    Number.isInteger(s.priority) &&
+    Array.isArray(s.earningsRows) &&
+    s.earningsRows.every(Array.isArray);
+  if (parsed.additionalSources !== undefined && !(Array.isArray(parsed.additionalSources) && parsed.additionalSources.every(validSource))) {
+    throw new Error(`Snapshot ${filePath}: "additionalSources" must be an array of {"source", "priority", "earningsRows"}`);
+  }
+
+  const toStrings = (rows: unknown[][]) => rows.map((row) => row.map((cell) => String(cell ?? '')));
+
+  return {
+    date: parsed.date ?? '',
+    capturedAt: parsed.capturedAt ?? '',
+    holdings: (parsed.holdings ?? []).map((t: string) => t.trim().toUpperCase()),
+    ...(parsed.positions ? { positions: parsed.positions } : {}),
+    watchlist: (parsed.watchlist ?? []).map((t: string) => t.trim().toUpperCase()),
+    earningsRows: toStrings(parsed.earningsRows),
+    ...(parsed.leadTimeRows ? { leadTimeRows: toStrings(parsed.leadTimeRows) } : {}),
+    ...(parsed.additionalSources
+      ? {
+          additionalSources: parsed.additionalSources.map((s: SnapshotSource) => ({
+            source: s.source,
+            priority: s.priority,
+            earningsRows: toStrings(s.earningsRows),
+          })),
+        }
+      : {}),
+  };
+}
+
+/**
+ * Save a snapshot of a run's inputs
+ *
+ * @param snapshot - Inputs to save (capturedAt is filled in)
+ * @returns Path of the written file
+ */
+export function saveSnapshot(snapshot: Omit<RunSnapshot, 'capturedAt'>): string {
+  if (!existsSync(SNAPSHOTS_DIR)) {
+    mkdirSync(SNAPSHOTS_DIR, { recursive: true });
+  }
+
+  const filePath = getSnapshotPath(snapshot.date);
+  const content: RunSnapshot = { ...snapshot, capturedAt: now().toISOString() };
+  writeFileSync(filePath, JSON.stringify(content, null, 2), 'utf-8');
+  return filePath;
+}
@@ -0,0 +1,272 @@
+/**
+ * Time-of-Day Parser for Earnings Alerts
+ *
+ * Single parser for the report time strings in the earnings sheet, used by
+ * both the sheet reader and the alert logic. Returns the category
+ * (premarket / intraday / postmarket / unknown) alongside the parsed clock time in
+ * market time (ET), when the string has one.
+ *
+ * The vocabulary is configurable in config/settings.json ("timeOfDay"):
+ * - aliases: phrases per category, matched as whole words ("pre" matches
+ *   "Pre-market" but not "prepared")
+ * - timezones: suffixes such as "ET", "GMT" or "BST" mapped to IANA
+ *   timezones; times with a suffix are converted to ET on the report date
+ *
+ * Clock times are categorised with preMarketRange / postMarketRange from
+ * settings; times outside both ranges' outer bounds (e.g. overnight) are
+ * unknown. On early-close days post-market starts at the session close.
+ */
+
+import { TimeOfDay, Exchange } from './types';
+import { getTradingSession } from './calendar';
+import { getSettings, timeToMinutes } from './settings';
+import { zonedInstant, toMarketTime, toMarketDate, toDateKey, marketToday } from './market-clock';
+
+/**
+ * Parsed report time
+ */
+export interface ParsedReportTime {
+  timeOfDay: TimeOfDay;
+  time: string | null;      // Clock time in ET ("HH:mm"), null for named times
+  timezone?: string;        // Timezone suffix the time was given in (e.g. "GMT")
+}
+
+// ============================================================================
+// Normalisation
+// ============================================================================
+
+/**
+ * Normalise a time string or alias for matching: lowercase, no dots
+ * ("a.m." -> "am"), no brackets, single spaces
+ */
+function normalize(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/\./g, '')
+    .replace(/[()[\]]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Escape a string for use in a regular expression
+ */
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Check whether a phrase appears in text as whole words
+ */
+function containsPhrase(text: string, phrase: string): boolean {
+  return new RegExp(`(^|[^a-z0-9])${escapeRegExp(phrase)}($|[^a-z0-9])`).test(text);
+}
+
+/**
+ * Find the categories whose aliases match the text
+ *
+ * @param exact - Only match aliases equal to the whole text
+ */
+function matchAliases(text: string, exact: boolean): TimeOfDay[] {
+  const { aliases } = getSettings().timeOfDay;
+  const matches: TimeOfDay[] = [];
+  for (const [category, phrases] of Object.entries(aliases) as [TimeOfDay, string[]][]) {
+    const found = phrases.some((phrase) => {
+      const normalized = normalize(phrase);
+      return exact ? text === normalized : containsPhrase(text, normalized);
+    });
+    if (found) {
+      matches.push(category);
+    }
+  }
+  return matches;
+}
+
+// ============================================================================
+// Clock Times
+// ============================================================================
+
+/**
+ * Split a trailing timezone suffix off a normalised time string
+ *
+ * @returns Remaining text and the suffix (as configured), if any
+ */
+function splitTimezone(text: string): { text: string; timezone?: string } {
+  const { timezones } = getSettings().timeOfDay;
+  // Longest first, and not preceded by a letter ("ET" must not match "CET")
+  const suffixes = Object.keys(timezones).sort((a, b) => b.length - a.length);
+  for (const suffix of suffixes) {
+    const pattern = new RegExp(`\\s*(?<![a-z])${escapeRegExp(suffix.toLowerCase())}$`);
+    if (pattern.test(text)) {
+      return { text: text.replace(pattern, '').trim(), timezone: suffix };
+    }
+  }
+  return { text };
+}
+
+/**
+ * Parse a clock time into hours and minutes (24-hour format)
+ *
+ * Handles "6:00am", "4:30 pm", "9am", "16:00", "9:15" and "0530".
+ *
+ * @param text - Normalised time string without timezone suffix
+ * @returns Hours and minutes, or null if unparseable
+ */
+function parseClockTime(text: string): { hours: number; minutes: number } | null {
+  let hours: number;
+  let minutes: number;
+
+  const withPeriod = text.match(/^(\d{1,2})(?::(\d{2}))?\s*(am|pm)$/);
+  const withColon = text.match(/^(\d{1,2}):(\d{2})$/);
+  const noColon = text.match(/^(\d{2})(\d{2})$/);
+
+  if (withPeriod) {
+    hours = parseInt(withPeriod[1], 10);
+    minutes = parseInt(withPeriod[2] || '0', 10);
+    if (hours < 1 || hours > 12) return null;
+
+    // Convert to 24-hour
+    if (withPeriod[3] === 'pm' && hours !== 12) {
+      hours += 12;
+    } else if (withPeriod[3] === 'am' && hours === 12) {
+      hours = 0;
+    }
+  } else if (withColon || noColon) {
+    const match = (withColon || noColon)!;
+    hours = parseInt(match[1], 10);
+    minutes = parseInt(match[2], 10);
+  } else {
+    return null;
+  }
+
+  if (hours > 23 || minutes > 59) return null;
+  return { hours, minutes };
+}
+
+/**
+ * Format hours and minutes as "HH:mm"
+ */
+function formatClockTime(hours: number, minutes: number): string {
+  return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}`;
+}
+
+/**
+ * Categorise a clock time in ET using the configured market ranges
+ *
+ * - Pre-market range -> premarket
+ * - Post-market range -> postmarket
+ * - In between (regular trading hours) -> intraday
+ * - Before the pre-market start or after the post-market end -> unknown
+ *
+ * @param time - Clock time in ET ("HH:mm")
+ * @param postmarketStartOverride - Post-market start ("HH:mm" ET), e.g. an early close
+ * @returns TimeOfDay category
+ */
+export function categorizeMarketTime(time: string, postmarketStartOverride?: string): TimeOfDay {
+  const { preMarketRange, postMarketRange } = getSettings();
+  const timeValue = timeToMinutes(time);
+
+  // Outside the configured ranges (e.g. overnight releases)
+  if (timeValue < timeToMinutes(preMarketRange.start) || timeValue > timeToMinutes(postMarketRange.end)) {
+    return 'unknown';
+  }
+
+  if (timeValue <= timeToMinutes(preMarketRange.end)) {
+    return 'premarket';
+  }
+
+  // Early closes move the post-market start, not its end
+  if (timeValue >= timeToMinutes(postmarketStartOverride ?? postMarketRange.start)) {
+    return 'postmarket';
+  }
+
+  // Regular trading hours
+  return 'intraday';
+}
+
+// ============================================================================
+// Parser
+// ============================================================================
+
+/**
+ * Parse a report time string from the earnings sheet
+ *
+ * Order:
+ * 1. Empty -> unknown
+ * 2. Exact alias ("BMO", "during market", "after hours", "TBD")
+ * 3. Clock time, with optional timezone suffix ("4:30 PM ET", "07:00 GMT")
+ * 4. Aliases as whole words ("Before Market Open (confirmed)"); if aliases
+ *    for more than one category match, the result is unknown
+ *
+ * Clock times in another timezone are converted to ET on the report date.
+ * If that moves the time to the previous ET day, the report is out before
+ * the open (premarket); if to the next ET day, after the close (postmarket).
+ *
+ * @param timeStr - Raw time string from sheet
+ * @param reportDate - Report date (for timezone conversion and early closes)
+ * @param exchange - Listing exchange (default: NYSE)
+ * @returns Category and clock time
+ *
+ * @example
+ * parseReportTime('4:30 PM ET')    // { timeOfDay: 'postmarket', time: '16:30', timezone: 'ET' }
+ * parseReportTime('prepared')      // { timeOfDay: 'unknown', time: null }
+ */
+export function parseReportTime(
+  timeStr: string | undefined | null,
+  reportDate?: Date,
+  exchange: Exchange = 'NYSE'
+): ParsedReportTime {
+  if (!timeStr || typeof timeStr !== 'string') {
+    return { timeOfDay: 'unknown', time: null };
+  }
+
+  const normalized = normalize(timeStr);
+  if (!normalized) {
+    return { timeOfDay: 'unknown', time: null };
+  }
+
+  // Exact alias
+  const exactMatches = matchAliases(normalized, true);
+  if (exactMatches.length === 1) {
+    return { timeOfDay: exactMatches[0], time: null };
+  }
+
+  // Clock time, with optional timezone suffix
+  const { text, timezone } = splitTimezone(normalized);
+  const clock = parseClockTime(text);
+  if (clock) {
+    const date = reportDate ?? marketToday();
+    let time = formatClockTime(clock.hours, clock.minutes);
+    let dayShift = 0;
+
+    if (timezone) {
+      const instant = zonedInstant(date, time, getSettings().timeOfDay.timezones[timezone]);
+      time = toMarketTime(instant);
+      dayShift = Math.sign(toDateKey(toMarketDate(instant)).localeCompare(toDateKey(date)));
+    }
+
+    let timeOfDay: TimeOfDay;
+    if (dayShift < 0) {
+      timeOfDay = 'premarket';
+    } else if (dayShift > 0) {
+      timeOfDay = 'postmarket';
+    } else {
+      // Early-close days: post-market starts at the close (converted to ET)
+      const session = reportDate ? getTradingSession(reportDate, exchange) : null;
+      const earlyClose = session?.earlyClose
+        ? toMarketTime(zonedInstant(reportDate!, session.close, session.timezone))
+        : undefined;
+      timeOfDay = categorizeMarketTime(time, earlyClose);
+    }
+
+    return { timeOfDay, time, ...(timezone ? { timezone } : {}) };
+  }
+
+  // Aliases as whole words
+  const phraseMatches = matchAliases(normalized, false);
+  if (phraseMatches.length === 1) {
+    return { timeOfDay: phraseMatches[0], time: null };
+  }
+
+  return { timeOfDay: 'unknown', time: null };
+}
@@ -5,13 +5,38 @@
 export interface EarningsReport {
   ticker: string;
   company: string;
-  reportDate: Date;
+  reportDate: Date;       // Calendar date (UTC midnight, see market-clock.ts)
   timeOfDay: TimeOfDay;
+  reportTime?: string;    // Parsed clock time in ET ("HH:mm"), if the sheet gives one
   rawTimeString?: string; // Original time string from sheet
+  exchange?: Exchange;    // Listing exchange (defaults to NYSE)
+  dateConfirmed?: boolean; // Confirmed flag from the sheet, if it has one
+  epsEstimate?: number;    // Consensus EPS estimate, if the sheet has one
+  revenueEstimate?: number; // Consensus revenue estimate, if the sheet has one
+  source?: string;         // Earnings source the date came from (see earnings-merge.ts)
 }
 
+/**
+ * Earnings sheet fields found by header name (see sheets.ts)
+ */
+export type EarningsColumnField =
+  | 'ticker'
+  | 'company'
+  | 'reportDate'
+  | 'timeOfDay'
+  | 'confirmed'
+  | 'epsEstimate'
+  | 'revenueEstimate';
+
+/**
+ * Exchanges with a trading calendar (see calendar.ts)
+ * NASDAQ shares the NYSE holiday and session rules.
+ */
+export type Exchange = 'NYSE' | 'NASDAQ' | 'TSX' | 'LSE';
+
 export type TimeOfDay =
   | 'premarket'      // 5:00am - 9:30am
+  | 'intraday'       // During market hours (9:30am - 4:00pm)
   | 'postmarket'     // 4:00pm - 8:00pm
   | 'unknown';       // Treat as premarket (safer)
 
@@ -20,23 +45,298 @@ export interface AlertDue {
   alertDate: Date;
   reportDateFormatted: string;
   daysUntilReport: number;
+  weight?: number;          // Holding's portfolio weight in percent (see applyHoldingWeights)
+  accounts?: string[];      // Custodian accounts / funds holding the ticker
+}
+
+/**
+ * One position from the holdings CSV. Columns missing from the report are
+ * left undefined.
+ */
+export interface Holding {
+  ticker: string;
+  cusip?: string;
+  securityName?: string;
+  account?: string;
+  shares?: number;
+  marketValue?: number;
+  weight?: number;          // Percent of the account (5.2 = 5.2%)
+}
+
+/**
+ * Share of the portfolio reporting in the current week (email header)
+ */
+export interface PortfolioWeekSummary {
+  weight: number;           // Percent of the portfolio
+  holdings: number;         // Holdings reporting this week
+}
+
+/**
+ * A point in the trading-day timeline: trading-day offset from the email
+ * date (0 = today) plus session. Pre-market, intraday, then post-market.
+ */
+export interface SessionPoint {
+  day: number;
+  session: 'premarket' | 'intraday' | 'postmarket';
+}
+
+/**
+ * Email section defined in config/settings.json ("sections")
+ */
+export interface SectionDefinition {
+  id: string;
+  title: string;
+  audience: 'holdings' | 'watchlist' | 'tag';
+  tag?: string;             // Tag name when audience is 'tag' (see "tags")
+  accounts?: string[];      // Only holdings held in one of these accounts / funds
+  window: { from: SessionPoint; to: SessionPoint }; // Inclusive; unknown time counts as pre-market
+  color: string;            // Accent colour (hex)
+  colorEnd?: string;        // Header gradient end colour (defaults to color)
+  urgent: boolean;          // Urgent alerts are marked as sent after the email goes out
+  subject: string;          // Subject fragment, e.g. "{n} holding{s} imminent"
+}
+
+/**
+ * Per-ticker / per-tag lead time ("leadTimes" in settings.json or the lead
+ * times sheet tab). Stretches or shortens the furthest-reaching section a
+ * ticker is in.
+ */
+export interface LeadTimeOverride {
+  ticker?: string;          // Ticker (one of ticker / tag)
+  tag?: string;             // Tag name listed under "tags"
+  days: number;             // Section ends on this trading-day offset
+  sessions: SessionPoint['session'][]; // Report sessions the override applies to; unknown counts as pre-market
+}
+
+/**
+ * Section definitions plus the tag lists they can refer to
+ */
+export interface SectionConfig {
+  sections: SectionDefinition[];
+  tags: Record<string, string[]>; // Tag name -> tickers
+  leadTimes: LeadTimeOverride[];  // Ticker overrides first, then tags, in configured order
+}
+
+/**
+ * A built email section: its definition and the alerts in it
+ */
+export interface AlertSection {
+  definition: SectionDefinition;
+  alerts: AlertDue[];
+}
+
+/**
+ * Last-seen report for a ticker (see report-history.ts)
+ */
+export interface SeenReport {
+  reportDate: string;     // YYYY-MM-DD
+  timeOfDay: TimeOfDay;
+  reportTime?: string;    // "HH:mm" ET
+  rawTimeString?: string;
+  seenAt: string;         // ISO datetime of the run that saw it
+}
+
+/**
+ * Per-ticker report history persisted between runs
+ */
+export interface ReportHistory {
+  version: number;
+  updatedAt: string;
+  tickers: Record<string, SeenReport>;
+}
+
+/**
+ * A report whose date or time changed since the last run
+ */
+export interface ReportChange {
+  report: EarningsReport;   // Current values
+  previous: SeenReport;     // Values last seen
+  audience: 'holdings' | 'watchlist';
+  accounts?: string[];      // Accounts holding the ticker (holdings with an Account column)
+  dateChanged: boolean;
+  timeChanged: boolean;
+}
+
+/**
+ * A holding whose report time went from unknown to a confirmed session
+ */
+export interface TimeConfirmation {
+  change: ReportChange;
+  previousAlertDate: Date;  // Urgent alert date while the time was unknown
+  alertDate: Date;          // Urgent alert date for the confirmed time
+}
+
+/**
+ * Mute rule from config/mutes.json (see mutes.ts)
+ *
+ * No until/reports = permanent. sections limits it to those section ids.
+ */
+export interface MuteRule {
+  ticker: string;
+  until?: string;       // Muted through this date (YYYY-MM-DD)
+  reports?: number;     // Muted for the next N reports from `since`
+  since?: string;       // Date the rule was added (YYYY-MM-DD); required with reports
+  sections?: string[];  // Section ids (default: all sections)
+  reason?: string;
+}
+
+/**
+ * Report dates used up by "reports" mute rules, persisted between runs
+ */
+export interface MuteState {
+  version: number;
+  consumed: Record<string, string[]>;  // "TICKER|since" -> muted report dates
+}
+
+/**
+ * An alert left out of a section by a mute rule
+ */
+export interface MutedAlert {
+  alert: AlertDue;
+  sectionId: string;
+  rule: MuteRule;
+}
+
+/**
+ * Email content besides the configured sections
+ */
+export interface AlertEmailExtras {
+  changes?: ReportChange[];             // "Date / time changed" section
+  confirmations?: TimeConfirmation[];   // "Time now confirmed" section
+  recap?: AlertDue[];                   // "Reported since last email" section
+  muted?: MutedAlert[];                 // Counted in the footer
+  week?: PortfolioWeekSummary;          // Portfolio share reporting this week (header)
+  accountWeeks?: Record<string, PortfolioWeekSummary>; // Same per account-scoped group (key: accounts joined by newlines)
+  conflicts?: SourceConflict[];         // Holdings whose earnings sources disagree (warning rows)
+}
+
+/**
+ * Recipients sharing one version of the email. Account-scoped recipients
+ * only get holdings held in their accounts.
+ */
+export interface RecipientGroup {
+  recipients: string[];
+  accounts?: string[];
 }
 
 export interface SentAlert {
   ticker: string;
   reportDate: string; // ISO date string
   sentAt: string;     // ISO datetime string
+  sectionId?: string; // Email section the alert was sent in
+  alertDate?: string; // Market date of the email (YYYY-MM-DD)
+  alertDaysBefore?: number; // Threshold: trading days before the report
+  recipients?: string[];    // Addresses the email went to
+  messageId?: string;       // Gmail message ID of the email
 }
 
-export interface Config {
-  googleSheetId: string;
-  sheetName: string;
+/**
+ * Sent-alerts JSON file (see alert-ledger.ts). Version 0 files were a bare
+ * array of SentAlert records.
+ */
+export interface SentAlertLedger {
+  version: number;
+  alerts: SentAlert[];
+}
+
+/**
+ * Outcome of sending an email
+ */
+export interface EmailResult {
+  sent: boolean;          // Sent (or would be, in dry-run)
   recipients: string[];
-  alertDaysBefore: number[];  // e.g., [5, 1] for 5 days and 1 day before
+  messageId?: string;     // Gmail message ID (not set in dry-run)
+  groups?: (RecipientGroup & { messageId?: string })[]; // Recipient groups emailed, for per-alert recipients
+}
+
+/**
+ * Where sent alerts are recorded (see sent-alert-store.ts)
+ */
+export interface SentAlertStoreSettings {
+  type: 'json' | 'sheet' | 'sqlite';
+  path?: string;      // json/sqlite: file path relative to the project root
+  sheetId?: string;   // sheet: spreadsheet ID (default: earnings sheet)
+  tab?: string;       // sheet: tab name
+}
+
+/**
+ * Where earnings rows and the watchlist are read from (see earnings-source.ts)
+ */
+export interface EarningsSourceSettings {
+  type: 'sheet' | 'csv' | 'json';
+  path?: string;           // csv/json: file path relative to the project root
+  watchlistPath?: string;  // csv: watchlist file, one ticker per line (default: no watchlist)
+  name?: string;           // Shown in logs and the email (default: type and path)
+  priority: number;        // Lower wins when sources disagree (see earnings-merge.ts); defaulted by settings.ts
+}
+
+/**
+ * A holding whose report date differs between earnings sources
+ * (see earnings-merge.ts)
+ */
+export interface SourceConflict {
+  report: EarningsReport;  // Report from the winning source
+  others: { source: string; reportDate: Date; dateConfirmed?: boolean }[]; // Sources with another date
+}
+
+/**
+ * How long runtime data is kept, in calendar days (see housekeeping.ts)
+ */
+export interface RetentionSettings {
+  sentAlerts: number;   // Sent-alert records in the configured store
+  snapshots: number;    // data/snapshots/YYYY-MM-DD.json (by snapshot date)
+  simulations: number;  // data/simulations/*.json (by file age)
+  logs: number;         // data/*.log (by file age)
+}
+
+/**
+ * Time range in market time ("HH:mm", 24-hour, America/New_York)
+ */
+export interface MarketTimeRange {
+  start: string;
+  end: string;
+}
+
+/**
+ * Vocabulary for parsing report time strings (see time-of-day.ts)
+ */
+export interface TimeOfDayVocabulary {
+  aliases: Record<TimeOfDay, string[]>; // Phrases per category, matched as whole words
+  timezones: Record<string, string>;    // Suffix (e.g. "GMT") -> IANA timezone
+}
+
+/**
+ * Validated settings from config/settings.json (see settings.ts)
+ */
+export interface Settings extends SectionConfig {
+  sheets: {
+    earnings: { id?: string; watchlistTab?: string; leadTimesTab?: string };
+  };
+  holdingsEmail: {
+    sender?: string;
+    filename?: string;
+  };
+  sheetName?: string;
+  alertDaysBefore: number[];        // Holdings alert lead times in trading days, e.g. [5, 1]
+  preMarketRange: MarketTimeRange;  // Reports in this range are pre-market
+  postMarketRange: MarketTimeRange; // Reports in this range are post-market
+  timeOfDay: TimeOfDayVocabulary;
+  earningsColumns: Record<EarningsColumnField, string[]>; // Header aliases per field
+  earningsSource: EarningsSourceSettings;
+  additionalEarningsSources: EarningsSourceSettings[]; // Merged with earningsSource by priority
+  sentAlertStore: SentAlertStoreSettings;
+  retention: RetentionSettings;
 }
 
 export interface CliOptions {
   checkTradingDay: boolean;
   dryRun: boolean;
   verbose: boolean;
+  now?: string;       // ISO instant to run as (overrides the real clock)
+  asOf?: string;      // Replay date (YYYY-MM-DD); implies no sending
+  snapshot?: string;  // Snapshot file to use instead of live data
+  source?: string;      // Earnings source type (overrides settings.earningsSource)
+  sourcePath?: string;  // File for a csv/json earnings source
+  outputHtml?: string; // Write rendered email HTML here
+  force: boolean;     // Send even if today's urgent alerts were already sent
 }